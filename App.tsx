@@ -1,29 +1,77 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import confetti from 'canvas-confetti';
 import { 
   GameState, 
   GamePhase, 
-  Player, 
-  Tile, 
   GameConfig, 
-  ChatMessage, 
-  TileColor 
+  GameAction,
+  GameRecord,
+  ActionType,
+  AssistMode,
+  Tile,
+  TileCandidates,
+  TileNote,
+  Notebook,
+  ChatMessage,
+  PlayerProfile,
+  MatchState,
+  ClientMessage,
+  RoomInfo,
+  ServerMessage,
+  TimeoutPolicy
 } from './types';
-import { createInitialTiles, sortHand, TOTAL_NUMBERS, JOKER_VALUE } from './constants';
+import { JOKER_VALUE, BOT_DIFFICULTY_LABELS, ASSIST_MODE_LABELS, TIMEOUT_POLICY_LABELS, CLASSIC_TILE_SET, COLOR_NAMES, hasJokers } from './constants';
+import { applyAction, getCurrentPlayer, markTakeback } from './game/engine';
+import { chooseBotMove, getFallbackBotMove } from './game/strategy';
+import { dealGame } from './game/setup';
+import { getPlayerView, getPublicView } from './game/view';
+import { getHandCandidates } from './game/deduction';
+import { getFinishingOrder } from './game/stats';
+import { createMatch, getMatchWinnerId, getNextFirstPlayerIndex, isMatchOver } from './game/match';
+import { addIncrement, createClocks, formatClock } from './game/clock';
+import { createRandom, generateSeed, SeededRandom } from './game/random';
+import { validateGameState } from './game/invariants';
+import { findTakeback, getTakebacksLeft, MAX_TAKEBACK_POINTS, sameTurn, TakebackPoint } from './game/takeback';
+import { loadGame, saveGame, clearSavedGame, SavedGame } from './services/saveGame';
 import TileComponent from './components/TileComponent';
 import GameSetup from './components/GameSetup';
+import ReplayViewer from './components/ReplayViewer';
+import GameAnalysis from './components/GameAnalysis';
+import GameLog from './components/GameLog';
+import Lobby from './components/Lobby';
+import NotesEditor from './components/NotesEditor';
+import CommentaryPanel from './components/CommentaryPanel';
+import ProfilesScreen from './components/ProfilesScreen';
+import MatchScoreboard from './components/MatchScoreboard';
+import JokerPlacer from './components/JokerPlacer';
+import DebugOverlay from './components/DebugOverlay';
+import { downloadRecord } from './services/recordFile';
+import { connectToServer, ConnectionStatus, MultiplayerConnection } from './services/multiplayer';
+import { createCommentator, findHighlight } from './services/commentator';
+import { getBotModel } from './services/gemini';
+import { loadProfiles, saveProfiles, recordGameResult } from './services/profiles';
+
+interface OnlineSession {
+  playerId: string | null; // Seat this browser plays, once the server has assigned one
+  room: RoomInfo | null;
+  status: ConnectionStatus;
+  error: string | null;
+}
 
-// --- Helper Functions ---
-
-const shuffle = <T,>(array: T[]): T[] => {
-  const newArray = [...array];
-  for (let i = newArray.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [newArray[i], newArray[j]] = [newArray[j], newArray[i]];
+// In hot-seat play the table faces whoever's turn it is; during a bot's turn it stays
+// with the human seated before the bot
+const getLocalViewerId = (state: GameState): string | undefined => {
+  const { players } = state;
+  const start = players.findIndex(p => p.id === state.currentTurnPlayerId);
+  for (let i = 0; i < players.length; i++) {
+    const player = players[(start - i + players.length) % players.length];
+    if (!player.isBot) return player.id;
   }
-  return newArray;
+  return undefined;
 };
 
+const EMPTY_NOTE: TileNote = { marked: [], crossed: [] };
+
 // --- Main Component ---
 
 function App() {
@@ -31,76 +79,403 @@ function App() {
   const [gameState, setGameState] = useState<GameState | null>(null);
   const [darkMode, setDarkMode] = useState(false);
   const [timeLeft, setTimeLeft] = useState(0);
-  const [guessModal, setGuessModal] = useState<{ targetPlayerId: string; targetTileIndex: number; targetTileId: string } | null>(null);
+  const [clocks, setClocks] = useState<Record<string, number>>({}); // Chess clock: seconds left per seat
+  const [guessModal, setGuessModal] = useState<{ targetPlayerId: string; targetTileId: string } | null>(null);
   const [showPassScreen, setShowPassScreen] = useState(false);
   const [showInstructions, setShowInstructions] = useState(false);
   const [showExitModal, setShowExitModal] = useState(false);
   const [showWrongGuessBanner, setShowWrongGuessBanner] = useState(false);
+  const [showLog, setShowLog] = useState(false);
+  const [assistMode, setAssistMode] = useState(AssistMode.OFF);
+  // Private notebooks by seat; only the seat facing the table sees its own
+  const [notebooks, setNotebooks] = useState<Record<string, Notebook>>({});
+  const [notesMode, setNotesMode] = useState(false);
+  const [noteTarget, setNoteTarget] = useState<{ playerId: string; tileId: string } | null>(null);
+  const [revealChoice, setRevealChoice] = useState<string | null>(null); // Own tile picked to give up, before confirming
+  const [placingJokerId, setPlacingJokerId] = useState<string | null>(null); // Joker in placement mode
+  const [takebacksUsed, setTakebacksUsed] = useState<Record<string, number>>({});
+  // Development builds: the last state that broke the game's invariants, and what it broke
+  const [violation, setViolation] = useState<{ problems: string[]; snapshot: GameState } | null>(null);
+
+  // Table commentary: reacts to big moments and answers rules questions
+  const [commentator] = useState(createCommentator);
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [showChat, setShowChat] = useState(false);
+  const [isCommentatorThinking, setIsCommentatorThinking] = useState(false);
+  const chatIdRef = useRef(0);
+  // Last event the commentator has seen; null until a game is on the table
+  const commentedSeqRef = useRef<number | null>(null);
+  // Latest explanation from each model-played bot
+  const [botReasoning, setBotReasoning] = useState<Record<string, string>>({});
 
   const turnTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const wrongGuessTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const randomRef = useRef<SeededRandom>(createRandom(0));
+  // Timer value to restore instead of a fresh turn timer when resuming a saved game
+  const resumedTimeLeftRef = useRef<number | null>(null);
+  // Seat whose chess clock ran last, owed the increment when the turn moves on
+  const clockSeatRef = useRef<string | null>(null);
+  const [savedGame, setSavedGame] = useState<SavedGame | null>(() => loadGame());
+  const [replay, setReplay] = useState<GameRecord | null>(null);
+  const [analysisRecord, setAnalysisRecord] = useState<GameRecord | null>(null); // Finished game under review
+  const [profiles, setProfiles] = useState<PlayerProfile[]>(() => loadProfiles());
+  const [showProfiles, setShowProfiles] = useState(false);
+  // Final state already counted in the profile stats, so a game is only counted once
+  const recordedResultRef = useRef<GameState | null>(null);
+  const [match, setMatch] = useState<MatchState | null>(null);
+
+  // Latest state and record, kept in refs so actions fired from timers never act on a stale state
+  const gameStateRef = useRef<GameState | null>(null);
+  const recordRef = useRef<GameRecord | null>(null);
+  // The table before each human action this game, for takebacks; not saved with the game
+  const takebackPointsRef = useRef<TakebackPoint[]>([]);
+
+  // Online play: the server owns the game state and this browser plays a single seat
+  const [online, setOnline] = useState<OnlineSession | null>(null);
+  const connectionRef = useRef<MultiplayerConnection | null>(null);
+
+  // Seat the table is shown for, and the part of the game it may see. Online the server only
+  // ever sends this seat's view; locally it is cut from the full state here.
+  const viewerId = online ? online.playerId : gameState ? getLocalViewerId(gameState) : undefined;
+  const view = useMemo(
+    () => (gameState && viewerId ? getPlayerView(gameState, viewerId) : gameState),
+    [gameState, viewerId]
+  );
+  const currentPlayer = view ? getCurrentPlayer(view) : undefined;
+  const viewer = view?.players.find(p => p.id === viewerId);
+  const isMyTurn = !!currentPlayer && !currentPlayer.isBot && currentPlayer.id === viewerId;
+  const takebacksLeft = config && viewerId && !online ? getTakebacksLeft(config, takebacksUsed[viewerId] ?? 0) : 0;
+  const canTakeBack =
+    takebacksLeft > 0 &&
+    gameState?.phase !== GamePhase.GAME_OVER &&
+    !!viewerId &&
+    findTakeback(takebackPointsRef.current, viewerId, false) !== -1;
+  const placingJoker = placingJokerId
+    ? [...(viewer?.hand ?? []), ...(view?.drawnTile ? [view.drawnTile] : [])].find(t => t.id === placingJokerId)
+    : undefined;
+
+  // Candidate values for every hidden opponent tile, worked out from this seat's view only
+  const hints = useMemo(() => {
+    const byTile = new Map<string, TileCandidates['candidates']>();
+    if (assistMode === AssistMode.OFF || !view || !viewerId || !config) return byTile;
+    for (const player of view.players) {
+      if (player.id === viewerId || player.isEliminated) continue;
+      for (const { tileId, candidates } of getHandCandidates(view, viewerId, player.id, config.tileSet)) {
+        byTile.set(tileId, candidates);
+      }
+    }
+    return byTile;
+  }, [view, viewerId, assistMode, config]);
+
+  // Four or more opponent hands are laid out two to a row on phones, with smaller tiles
+  const compactTable = (view?.players.length ?? 0) > 4;
+
+  const matchOver = !!match && !!config && isMatchOver(match, config.playerCount);
+  const matchWinnerId = match && config ? getMatchWinnerId(match, config.playerCount) : null;
+  const matchWinner = view?.players.find(p => p.id === matchWinnerId);
+
+  const notebook = viewerId ? notebooks[viewerId] : undefined;
+
+  const updateNotebook = (update: (notebook: Notebook) => Notebook) => {
+    if (!viewerId) return;
+    setNotebooks(prev => ({ ...prev, [viewerId]: update(prev[viewerId] ?? { tiles: {}, players: {} }) }));
+  };
+
+  const setTileNote = (tileId: string, note: TileNote) =>
+    updateNotebook(nb => ({ ...nb, tiles: { ...nb.tiles, [tileId]: note } }));
+
+  const setPlayerNote = (playerId: string, text: string) =>
+    updateNotebook(nb => ({ ...nb, players: { ...nb.players, [playerId]: text } }));
+
+  const addChatMessage = (sender: ChatMessage['sender'], text: string) => {
+    chatIdRef.current++;
+    setChatMessages(prev => [...prev, { id: String(chatIdRef.current), sender, text, timestamp: new Date() }]);
+  };
+
+  const resetCommentary = () => {
+    commentedSeqRef.current = null;
+    setChatMessages([]);
+    setBotReasoning({});
+  };
 
   // --- Initialization ---
 
-  const startGame = (newConfig: GameConfig) => {
+  const startGame = (setupConfig: GameConfig) => {
+    const length = setupConfig.matchLength ?? 1;
+    setMatch(length > 1 ? createMatch(length) : null);
+    dealNewGame(setupConfig);
+  };
+
+  // Same seats, fresh deal, and the first turn moves one seat along
+  const playAgain = () => {
+    if (!config) return;
+    const firstPlayerIndex = getNextFirstPlayerIndex(config.firstPlayerIndex, config.playerCount);
+    dealNewGame({ ...config, seed: undefined, firstPlayerIndex });
+  };
+
+  const rematch = () => {
+    setMatch(prev => prev && createMatch(prev.length));
+    playAgain();
+  };
+
+  const dealNewGame = (setupConfig: GameConfig) => {
+    const newConfig = { ...setupConfig, seed: setupConfig.seed ?? generateSeed() };
     setConfig(newConfig);
-    const shuffledTiles = shuffle(createInitialTiles(newConfig.includeJokers));
-    const players: Player[] = [];
-    const tilesPerPlayer = newConfig.playerCount === 4 ? 3 : 4;
-    let pool = [...shuffledTiles];
-    
-    // Determine how many humans vs bots
-    const humanCount = newConfig.playerCount - newConfig.botCount;
 
-    for (let i = 0; i < newConfig.playerCount; i++) {
-      const details = newConfig.playerDetails[i];
-      let hand = pool.splice(0, tilesPerPlayer).map(t => ({ ...t, ownerId: `p-${i}` }));
-      
-      // Auto-assign random sort positions for Bot Jokers, keep human jokers at end by default
-      if (details.isBot) {
-         hand = hand.map(t => {
-             if (t.isJoker) {
-                 // Random position 0-11
-                 return { ...t, sortValue: Math.random() * 12 };
-             }
-             return t;
-         });
-      }
+    // Every random decision of the game comes from this one generator
+    const random = createRandom(newConfig.seed);
+    randomRef.current = random;
+
+    const initialState = dealGame(newConfig, random);
+    recordRef.current = { config: newConfig, initialState, actions: [] };
+    takebackPointsRef.current = [];
+    setTakebacksUsed({});
+    setClocks(newConfig.clock ? createClocks(initialState.players, newConfig.clock) : {});
+    clockSeatRef.current = null;
+    setNotebooks({});
+    resetCommentary();
+    commitState(initialState);
+  };
+
+  const resumeGame = () => {
+    if (!savedGame) return;
+    const { config: savedConfig, gameState: savedState } = savedGame;
+
+    randomRef.current = createRandom(savedConfig.seed ?? generateSeed(), savedGame.randomCalls);
+    resumedTimeLeftRef.current = savedGame.timeLeft;
+    setClocks(savedGame.clocks);
+    clockSeatRef.current = null;
+    recordRef.current = savedGame.record;
+    takebackPointsRef.current = [];
+    setTakebacksUsed(savedGame.takebacksUsed);
+    setNotebooks(savedGame.notebooks);
+    setMatch(savedGame.match);
+    resetCommentary();
+    setConfig(savedConfig);
+    commitState(savedState);
+  };
 
-      players.push({
-        id: `p-${i}`,
-        name: details.name,
-        isBot: details.isBot,
-        hand: sortHand(hand),
-        isEliminated: false,
-        avatar: details.avatar,
-      });
+  const handleServerMessage = (msg: ServerMessage) => {
+    switch (msg.type) {
+      case 'joined':
+        setOnline(prev => prev && { ...prev, playerId: msg.playerId, error: null });
+        break;
+      case 'room':
+        setOnline(prev => prev && { ...prev, room: msg.room });
+        // Settings are fixed once the game starts, so only take them the first time
+        if (msg.room.isStarted) setConfig(prev => prev ?? msg.room.config);
+        break;
+      case 'state':
+        commitState(msg.state);
+        break;
+      case 'error':
+        setOnline(prev => prev && { ...prev, error: msg.message });
+        break;
+      case 'reasoning':
+        setBotReasoning(prev => ({ ...prev, [msg.playerId]: msg.text }));
+        break;
+      case 'clock':
+        setClocks(msg.clocks);
+        setTimeLeft(msg.timeLeft);
+        break;
     }
+  };
 
-    setGameState({
-      players,
-      currentTurnPlayerId: players[0].id,
-      drawnTile: null,
-      pool,
-      phase: GamePhase.DRAW,
-      winnerId: null,
-      turnLog: ['Game Started!'],
-      moveNumber: 1,
+  const connectOnline = (serverUrl: string, firstMessage: ClientMessage) => {
+    connectionRef.current?.close();
+    setOnline({ playerId: null, room: null, status: 'connecting', error: null });
+    setNotebooks({});
+    resetCommentary();
+
+    const connection = connectToServer(serverUrl, handleServerMessage, status => {
+      setOnline(prev => prev && { ...prev, status });
     });
+    connection.send(firstMessage);
+    connectionRef.current = connection;
+  };
 
-    setTimeLeft(newConfig.timerSeconds);
-    // If local multiplayer (more than 1 human), show pass screen first
-    if (humanCount > 1) {
-       setShowPassScreen(true);
-    }
+  const leaveOnline = () => {
+    connectionRef.current?.close();
+    connectionRef.current = null;
+    setOnline(null);
+    setConfig(null);
+    commitState(null);
   };
 
   const quitGame = () => {
+      if (online) {
+          setShowExitModal(false);
+          return leaveOnline();
+      }
+      clearSavedGame();
+      setSavedGame(null);
       setShowExitModal(false);
       setConfig(null);
-      setGameState(null);
+      setMatch(null);
+      recordRef.current = null;
+      commitState(null);
+  };
+
+  const commitState = (next: GameState | null) => {
+    gameStateRef.current = next;
+    setGameState(next);
+  };
+
+  // Applies an action to the latest state and records it. Returns the new state, or null if illegal.
+  // Online the move goes to the server instead, and the new state arrives from there.
+  const dispatch = (action: GameAction): GameState | null => {
+    if (online) {
+      connectionRef.current?.send({ type: 'action', action });
+      return null;
+    }
+
+    const prev = gameStateRef.current;
+    if (!prev) return null;
+
+    const next = applyAction(prev, action);
+    if (next === prev) return null;
+
+    // Ending the turn after a wrong guess is no choice, so there is nothing to take back
+    if (!getCurrentPlayer(prev)?.isBot && prev.phase !== GamePhase.TURN_END) {
+      const point = { state: prev, actionCount: recordRef.current?.actions.length ?? 0, clocks, timeLeft };
+      takebackPointsRef.current = [...takebackPointsRef.current, point].slice(-MAX_TAKEBACK_POINTS);
+    }
+    if (recordRef.current) {
+      recordRef.current = { ...recordRef.current, actions: [...recordRef.current.actions, action] };
+    }
+    commitState(next);
+    return next;
+  };
+
+  // Goes back to before the viewer's last move, or their whole last turn, undoing whatever
+  // the bots played since. The clocks go back too.
+  const takeBack = (wholeTurn: boolean) => {
+    if (!canTakeBack || !viewerId || !gameState) return;
+    const index = findTakeback(takebackPointsRef.current, viewerId, wholeTurn);
+    const point = takebackPointsRef.current[index];
+
+    takebackPointsRef.current = takebackPointsRef.current.slice(0, index);
+    if (recordRef.current) {
+      recordRef.current = { ...recordRef.current, actions: recordRef.current.actions.slice(0, point.actionCount) };
+    }
+    if (wrongGuessTimeoutRef.current) {
+      clearTimeout(wrongGuessTimeoutRef.current);
+      wrongGuessTimeoutRef.current = null;
+    }
+    setShowWrongGuessBanner(false);
+    setGuessModal(null);
+    setRevealChoice(null);
+    setPlacingJokerId(null);
+    setTakebacksUsed(prev => ({ ...prev, [viewerId]: (prev[viewerId] ?? 0) + 1 }));
+    setClocks(point.clocks);
+    if (sameTurn(gameState, point.state)) {
+      setTimeLeft(point.timeLeft);
+    } else {
+      // Back into an earlier turn: the turn-change effect takes the timer from here, and the
+      // turns undone earn no increment
+      resumedTimeLeftRef.current = point.timeLeft;
+      clockSeatRef.current = null;
+    }
+    const restored = markTakeback(point.state, wholeTurn);
+    // The commentary carries on from the restored table instead of waiting for the old event count
+    const { events } = getPublicView(restored);
+    commentedSeqRef.current = events[events.length - 1]?.seq ?? 0;
+    commitState(restored);
+  };
+
+  // --- Turn Change: reset timer, pass the device in local multiplayer ---
+  useEffect(() => {
+    if (!gameState || !config || gameState.phase === GamePhase.GAME_OVER) return;
+
+    // Online the server keeps the time and sends it with every change
+    if (!online) {
+      setTimeLeft(resumedTimeLeftRef.current ?? config.timerSeconds);
+      resumedTimeLeftRef.current = null;
+    }
+    if (config.clock && !online) {
+      const finishedSeat = clockSeatRef.current;
+      if (finishedSeat) setClocks(prev => addIncrement(prev, finishedSeat, config.clock!));
+      // Joker setup is not a turn, so it earns no increment
+      clockSeatRef.current = gameState.phase === GamePhase.SETUP ? null : gameState.currentTurnPlayerId;
+    }
+    setNoteTarget(null);
+    setRevealChoice(null);
+    setPlacingJokerId(null);
+    const humanCount = config.playerCount - config.botCount;
+    if (!online && humanCount > 1 && !getCurrentPlayer(gameState)?.isBot) {
+      setShowPassScreen(true);
+    }
+  }, [gameState?.moveNumber, gameState?.currentTurnPlayerId, gameState?.phase === GamePhase.SETUP, config]);
+
+  // --- Development builds: check every new state (online states are redacted views, so not those) ---
+  useEffect(() => {
+    if (!import.meta.env.DEV || !gameState || !config || online) return;
+    const problems = validateGameState(gameState, config.tileSet);
+    if (problems.length === 0) return;
+    console.error('Game state invariants broken', problems, gameState);
+    setViolation({ problems, snapshot: gameState });
+  }, [gameState]);
+
+  // --- Autosave after every change, cleared once the game is over ---
+  useEffect(() => {
+    if (!gameState || !config || online) return;
+
+    if (gameState.phase === GamePhase.GAME_OVER) {
+      clearSavedGame();
+      setSavedGame(null);
+      return;
+    }
+    saveGame({ config, gameState, timeLeft, clocks, randomCalls: randomRef.current.calls, record: recordRef.current, notebooks, match, takebacksUsed });
+  }, [gameState, config, timeLeft, clocks, notebooks, match, takebacksUsed]);
+
+  // --- Commentary on new events, from the public view only ---
+  useEffect(() => {
+    if (!gameState) return;
+    const table = getPublicView(gameState);
+    const lastSeq = table.events[table.events.length - 1]?.seq ?? 0;
+
+    // A game that was just started or resumed: only comment on what happens from here
+    if (commentedSeqRef.current === null) {
+      commentedSeqRef.current = lastSeq;
+      return;
+    }
+    const fresh = table.events.filter(e => e.seq > commentedSeqRef.current!);
+    commentedSeqRef.current = lastSeq;
+
+    const highlight = findHighlight(fresh, table.events);
+    if (!highlight) return;
+    commentator.comment(highlight, table)
+      .then(text => addChatMessage('ai', text))
+      .catch(() => addChatMessage('system', 'The commentator is unavailable right now.'));
+  }, [gameState?.events.length]);
+
+  const askCommentator = async (question: string) => {
+    if (!gameState) return;
+    addChatMessage('user', question);
+    setIsCommentatorThinking(true);
+    try {
+      addChatMessage('ai', await commentator.answer(question, getPublicView(gameState)));
+    } catch {
+      addChatMessage('system', 'The commentator is unavailable right now.');
+    } finally {
+      setIsCommentatorThinking(false);
+    }
+  };
+
+  const updateProfiles = (next: PlayerProfile[]) => {
+    setProfiles(next);
+    saveProfiles(next);
   };
 
+  // --- Profile stats and match score, counted once when a game ends ---
+  useEffect(() => {
+    if (gameState?.phase !== GamePhase.GAME_OVER || !config || recordedResultRef.current === gameState) return;
+    recordedResultRef.current = gameState;
+    // Online only this browser's seat is counted; the others are counted by their own browsers
+    updateProfiles(recordGameResult(profiles, config, gameState, online?.playerId ?? null));
+    if (match) setMatch({ ...match, results: [...match.results, getFinishingOrder(gameState)] });
+  }, [gameState?.phase]);
+
   // --- Confetti Effect ---
   useEffect(() => {
     if (gameState?.phase === GamePhase.GAME_OVER && gameState.winnerId) {
@@ -125,153 +500,91 @@ function App() {
   }, [gameState?.phase, gameState?.winnerId]);
 
 
-  // --- Timer Logic ---
+  // --- Timer Logic: the turn timer, or the chess clock of the seat to move ---
+  // Paused whenever the seat cannot act: behind the pass screen, the wrong-guess banner or
+  // while the guess modal is open. Online the server times every seat and never pauses;
+  // the countdown here is only for show between its updates.
   useEffect(() => {
-    if (!gameState || gameState.winnerId || showPassScreen || config?.timerSeconds === 0 || showWrongGuessBanner) return;
-    
-    const currentPlayer = gameState.players.find(p => p.id === gameState.currentTurnPlayerId);
-    if(currentPlayer?.isBot) return; // Don't time bots
-
-    if (timeLeft > 0) {
-      turnTimerRef.current = setTimeout(() => setTimeLeft(prev => prev - 1), 1000);
-    } else if (timeLeft === 0 && config?.timerSeconds !== 0) {
-      handleTimeOut();
-    }
+    if (!gameState || !config || gameState.winnerId) return;
+    if (!config.clock && config.timerSeconds === 0) return;
+    if (!online && (showPassScreen || showWrongGuessBanner || guessModal)) return;
+    // Bots are timed too
+    if (!online && !isMyTurn && !currentPlayer?.isBot) return;
+
+    const seatId = gameState.currentTurnPlayerId;
+    const left = config.clock ? clocks[seatId] ?? 0 : timeLeft;
+    // The time runs out at the end of the last second, so a value left over from the
+    // previous turn is replaced by the fresh one before anything happens
+    turnTimerRef.current = setTimeout(() => {
+      if (left <= 1 && !online) handleTimeOut();
+      if (config.clock) setClocks(prev => ({ ...prev, [seatId]: Math.max(0, (prev[seatId] ?? 0) - 1) }));
+      else setTimeLeft(prev => Math.max(0, prev - 1));
+    }, 1000);
 
     return () => {
       if (turnTimerRef.current) clearTimeout(turnTimerRef.current);
     };
-  }, [timeLeft, gameState, showPassScreen, config, showWrongGuessBanner]);
+  }, [timeLeft, clocks, gameState, showPassScreen, config, showWrongGuessBanner, guessModal, revealChoice]);
 
   const handleTimeOut = () => {
-      if (!gameState) return;
-      if (gameState.drawnTile) {
-          addLog("Time ran out! Drawn tile revealed.");
-          endTurn(false);
-      } else {
-          drawTile();
-          setTimeLeft(10); 
+      if (!gameState || !config) return;
+      setGuessModal(null);
+      const policy = config.timeoutPolicy ?? TimeoutPolicy.AUTO_PLAY;
+      // Out of time while choosing which tile to give up: the one already picked goes
+      if (gameState.phase === GamePhase.REVEAL_OWN && revealChoice && policy !== TimeoutPolicy.ELIMINATE) {
+          dispatch({ type: ActionType.REVEAL_OWN, tileId: revealChoice });
+          return;
       }
+      dispatch({ type: ActionType.TIME_OUT, policy });
   };
 
 
   // --- Game Actions ---
 
   const drawTile = () => {
-    if (!gameState || gameState.phase !== GamePhase.DRAW) return;
-    
-    if (gameState.pool.length === 0) {
-        setGameState(prev => ({ ...prev!, phase: GamePhase.GUESS }));
-        addLog(`Pool empty. Proceed to guess.`);
-        return;
-    }
+    dispatch({ type: ActionType.DRAW });
+  };
 
-    const newPool = [...gameState.pool];
-    const tile = newPool.pop();
-    if (!tile) return;
+  const handleTileClick = (targetPlayerId: string, tileId: string) => {
+    if (!view) return;
+    if (showWrongGuessBanner) return; // Block clicks during banner
 
-    tile.ownerId = gameState.currentTurnPlayerId;
-    
-    const currentPlayer = gameState.players.find(p => p.id === gameState.currentTurnPlayerId);
-    if (currentPlayer?.isBot && tile.isJoker) {
-        tile.sortValue = Math.random() * 12;
+    // Notes can be taken on any hidden opponent tile, whoever's turn it is
+    if (notesMode) {
+      const tile = view.players.find(p => p.id === targetPlayerId)?.hand.find(t => t.id === tileId);
+      if (targetPlayerId !== viewerId && tile && !tile.isRevealed) setNoteTarget({ playerId: targetPlayerId, tileId });
+      return;
     }
 
-    setGameState(prev => ({
-      ...prev!,
-      pool: newPool,
-      drawnTile: tile,
-      phase: GamePhase.GUESS,
-    }));
-
-    addLog(`Player drawn a ${tile.color} tile.`);
-  };
+    if (!isMyTurn) return; // Prevent clicking on a bot's or another browser's turn
 
-  const handleTileClick = (targetPlayerId: string, tileIndex: number, tileId: string) => {
-    if (!gameState) return;
-    if (showWrongGuessBanner) return; // Block clicks during banner
-    
-    const currentPlayer = gameState.players.find(p => p.id === gameState.currentTurnPlayerId);
-    if (currentPlayer?.isBot) return; // Prevent clicking if it's bot's turn
+    if (view.phase === GamePhase.REVEAL_OWN) {
+      const tile = viewer?.hand.find(t => t.id === tileId);
+      if (targetPlayerId === viewerId && tile && !tile.isRevealed) setRevealChoice(tileId);
+      return;
+    }
 
-    if (gameState.phase !== GamePhase.GUESS) return;
+    if (view.phase !== GamePhase.GUESS) return;
     
-    const targetPlayer = gameState.players.find(p => p.id === targetPlayerId);
+    const targetPlayer = view.players.find(p => p.id === targetPlayerId);
     if (!targetPlayer || targetPlayer.isEliminated) return;
-    if (targetPlayer.id === gameState.currentTurnPlayerId) return; 
+    if (targetPlayer.id === view.currentTurnPlayerId) return; 
 
-    const targetTile = targetPlayer.hand[tileIndex];
-    if (targetTile.isRevealed) return; 
+    const targetTile = targetPlayer.hand.find(t => t.id === tileId);
+    if (!targetTile || targetTile.isRevealed) return; 
 
-    setGuessModal({ targetPlayerId, targetTileIndex: tileIndex, targetTileId: tileId });
+    setGuessModal({ targetPlayerId, targetTileId: tileId });
   };
   
-  const handleDragStart = (e: React.DragEvent, tileId: string) => {
-      if (showWrongGuessBanner) return;
-      e.dataTransfer.setData('text/plain', tileId);
-      e.dataTransfer.effectAllowed = 'move';
-  };
-
-  const handleDrop = (e: React.DragEvent, targetTileId: string) => {
-      e.preventDefault();
-      if (!gameState || showWrongGuessBanner) return;
-
-      const draggedId = e.dataTransfer.getData('text/plain');
-      if (draggedId === targetTileId) return; 
-
-      const currentPlayer = gameState.players.find(p => p.id === gameState.currentTurnPlayerId);
-      if (!currentPlayer) return;
-
-      const hand = currentPlayer.hand;
-      const draggedTile = hand.find(t => t.id === draggedId);
-      
-      const isDrawnTile = gameState.drawnTile?.id === draggedId;
-      const draggedObj = isDrawnTile ? gameState.drawnTile : draggedTile;
-
-      if (!draggedObj || !draggedObj.isJoker || draggedObj.isPlaced) {
-          return;
-      }
-
-      let newSortValue = 0;
-      const targetIndex = hand.findIndex(t => t.id === targetTileId);
-      if (targetIndex !== -1) {
-          const targetTile = hand[targetIndex];
-          if (targetIndex === 0) {
-              newSortValue = targetTile.sortValue - 1;
-          } else {
-              const prevTile = hand[targetIndex - 1];
-              if (prevTile.id === draggedId && targetIndex > 1) {
-                  const prevPrev = hand[targetIndex - 2];
-                  newSortValue = (prevPrev.sortValue + targetTile.sortValue) / 2;
-              } else if (prevTile.id === draggedId) {
-                   newSortValue = targetTile.sortValue - 0.5;
-              } else {
-                  newSortValue = (prevTile.sortValue + targetTile.sortValue) / 2;
-              }
-          }
-      } else {
-          const lastTile = hand[hand.length - 1];
-          if (lastTile) newSortValue = lastTile.sortValue + 1;
-      }
-
-      if (isDrawnTile) {
-           setGameState(prev => ({
-               ...prev!,
-               drawnTile: { ...prev!.drawnTile!, sortValue: newSortValue, isPlaced: true }
-           }));
-      } else {
-           const newHand = hand.map(t => {
-               if (t.id === draggedId) {
-                   return { ...t, sortValue: newSortValue, isPlaced: true };
-               }
-               return t;
-           });
-           
-           setGameState(prev => ({
-               ...prev!,
-               players: prev!.players.map(p => p.id === currentPlayer.id ? { ...p, hand: sortHand(newHand) } : p)
-           }));
-      }
+  // A Joker can be placed by its owner on their turn, before the turn's guessing is settled
+  const canPlaceJoker = (tile: Tile) =>
+    isMyTurn && !showWrongGuessBanner && tile.isJoker && !tile.isPlaced && !tile.isRevealed &&
+    (view?.phase === GamePhase.SETUP || view?.phase === GamePhase.DRAW || view?.phase === GamePhase.GUESS || view?.phase === GamePhase.RESOLVE);
+
+  const placeJoker = (position: number) => {
+      if (!placingJokerId) return;
+      dispatch({ type: ActionType.PLACE_JOKER, tileId: placingJokerId, position });
+      setPlacingJokerId(null);
   };
 
   const handleWrongGuessCompletion = () => {
@@ -279,146 +592,46 @@ function App() {
            clearTimeout(wrongGuessTimeoutRef.current);
            wrongGuessTimeoutRef.current = null;
        }
-       // Prevent double execution if already hidden
-       if (!showWrongGuessBanner) return;
-
        setShowWrongGuessBanner(false);
-       addLog(`Wrong guess!`);
-       endTurn(false);
+       dispatch({ type: ActionType.END_TURN });
   };
 
   const submitGuess = (value: number) => {
     if (!gameState || !guessModal) return;
 
-    const { targetPlayerId, targetTileIndex } = guessModal;
+    const { targetPlayerId, targetTileId } = guessModal;
     setGuessModal(null); 
 
-    const targetPlayer = gameState.players.find(p => p.id === targetPlayerId);
-    if (!targetPlayer) return;
-
-    const targetTile = targetPlayer.hand[targetTileIndex];
-    const isCorrect = targetTile.value === value;
-
-    if (isCorrect) {
-      const newPlayers = gameState.players.map(p => {
-        if (p.id === targetPlayerId) {
-          const newHand = [...p.hand];
-          newHand[targetTileIndex] = { ...newHand[targetTileIndex], isRevealed: true };
-          return { ...p, hand: newHand };
-        }
-        return p;
-      });
-
-      const updatedTargetPlayer = newPlayers.find(p => p.id === targetPlayerId)!;
-      const allRevealed = updatedTargetPlayer.hand.every(t => t.isRevealed);
-      if (allRevealed) {
-          updatedTargetPlayer.isEliminated = true;
-          addLog(`${updatedTargetPlayer.name} is eliminated!`);
-      }
-
-      setGameState(prev => ({
-        ...prev!,
-        players: newPlayers,
-        phase: GamePhase.RESOLVE 
-      }));
-      
-      addLog(`Correct! It was ${targetTile.isJoker ? 'a Joker' : targetTile.value}.`);
-      checkWinner(newPlayers);
-
-    } else {
-      // Wrong Guess Logic
-      setShowWrongGuessBanner(true);
-      
-      // Delay before ending turn, cleared if user clicks
-      wrongGuessTimeoutRef.current = setTimeout(() => {
-          // Check if still showing to avoid race condition with click
-          setShowWrongGuessBanner(prev => {
-              if(prev) {
-                  addLog(`Wrong guess!`);
-                  endTurn(false);
-                  return false;
-              }
-              return prev;
-          });
-      }, 3000);
-    }
+    dispatch({ type: ActionType.GUESS, targetPlayerId, tileId: targetTileId, value });
   };
 
-  const continueTurn = () => {
-      if (gameState?.phase === GamePhase.RESOLVE) {
-          setGameState(prev => ({...prev!, phase: GamePhase.GUESS}));
-      }
-  };
-
-  const endTurn = (wasSuccess = true) => {
-    if (!gameState) return;
-
-    let newPlayers = [...gameState.players];
-    const currentPlayerIdx = newPlayers.findIndex(p => p.id === gameState.currentTurnPlayerId);
-    const currentPlayer = { ...newPlayers[currentPlayerIdx] };
-    
-    if (gameState.drawnTile) {
-        const tileToInsert = { ...gameState.drawnTile };
-        if (!wasSuccess) {
-            tileToInsert.isRevealed = true; 
-            addLog(`Revealed drawn tile: ${tileToInsert.color} ${tileToInsert.isJoker ? 'Joker' : tileToInsert.value}`);
-        }
-        
-        const newHand = [...currentPlayer.hand, tileToInsert];
-        currentPlayer.hand = sortHand(newHand);
-        newPlayers[currentPlayerIdx] = currentPlayer;
-    }
-
-    let nextPlayerIdx = (currentPlayerIdx + 1) % newPlayers.length;
-    while(newPlayers[nextPlayerIdx].isEliminated) {
-        nextPlayerIdx = (nextPlayerIdx + 1) % newPlayers.length;
-    }
-    
-    const nextPlayerId = newPlayers[nextPlayerIdx].id;
-
-    setGameState({
-        players: newPlayers,
-        currentTurnPlayerId: nextPlayerId,
-        drawnTile: null,
-        pool: gameState.pool, 
-        phase: GamePhase.DRAW,
-        winnerId: gameState.winnerId,
-        turnLog: gameState.turnLog,
-        moveNumber: gameState.moveNumber + 1
-    });
+  // Wrong Guess: show the banner, the turn ends when it is dismissed or times out.
+  // Also covers a resumed game that was saved while the banner was up.
+  useEffect(() => {
+    if (gameState?.phase !== GamePhase.TURN_END || !isMyTurn) return;
+    setShowWrongGuessBanner(true);
+    wrongGuessTimeoutRef.current = setTimeout(handleWrongGuessCompletion, 3000);
+  }, [gameState?.phase, gameState?.moveNumber]);
 
-    if (config?.playerCount) {
-        const humanCount = config.playerCount - config.botCount;
-        const nextPlayerIsBot = newPlayers[nextPlayerIdx].isBot;
-        if (humanCount > 1 && !nextPlayerIsBot) {
-             setShowPassScreen(true);
-        }
-    }
-    
-    setTimeLeft(config?.timerSeconds || 0);
+  const continueTurn = () => {
+      dispatch({ type: ActionType.CONTINUE });
   };
 
-  const checkWinner = (players: Player[]) => {
-      const activePlayers = players.filter(p => !p.isEliminated);
-      if (activePlayers.length === 1) {
-          setGameState(prev => ({...prev!, winnerId: activePlayers[0].id, phase: GamePhase.GAME_OVER}));
-          addLog(`${activePlayers[0].name} WINS!`);
-      }
+  const endTurn = () => {
+      dispatch({ type: ActionType.END_TURN });
   };
 
-  const addLog = (msg: string) => {
-    setGameState(prev => {
-        if (!prev) return null;
-        const newLog = [msg, ...prev.turnLog].slice(0, 50);
-        return { ...prev, turnLog: newLog };
-    });
+  const confirmReveal = () => {
+      if (!revealChoice) return;
+      dispatch({ type: ActionType.REVEAL_OWN, tileId: revealChoice });
+      setRevealChoice(null);
   };
 
   // --- Bot Logic ---
   useEffect(() => {
       if (!gameState || gameState.winnerId || showPassScreen || showWrongGuessBanner) return;
+      if (online) return; // The server plays the bots
       
-      const currentPlayer = gameState.players.find(p => p.id === gameState.currentTurnPlayerId);
       if (currentPlayer && currentPlayer.isBot) {
           const timer = setTimeout(() => {
               executeBotMove();
@@ -428,78 +641,20 @@ function App() {
   }, [gameState, showPassScreen, showWrongGuessBanner]);
 
   const executeBotMove = () => {
-      if (!gameState) return;
-
-      if (gameState.phase === GamePhase.DRAW) {
-          drawTile();
-          return;
-      }
-
-      if (gameState.phase === GamePhase.GUESS) {
-          const opponents = gameState.players.filter(p => p.id !== gameState.currentTurnPlayerId && !p.isEliminated);
-          if(opponents.length === 0) return;
-          
-          const target = opponents[Math.floor(Math.random() * opponents.length)];
-          const hiddenTiles = target.hand.map((t, i) => ({t, i})).filter(item => !item.t.isRevealed);
-          
-          if (hiddenTiles.length === 0) return; 
-          
-          const targetTileObj = hiddenTiles[Math.floor(Math.random() * hiddenTiles.length)];
-          
-          const possibleValues = Array.from({length: TOTAL_NUMBERS}, (_, i) => i);
-          if (config?.includeJokers) possibleValues.push(JOKER_VALUE);
-
-          const guessVal = possibleValues[Math.floor(Math.random() * possibleValues.length)];
-          
-          const targetTile = targetTileObj.t;
-          const isCorrect = targetTile.value === guessVal;
-
-          if (isCorrect) {
-               addLog(`Bot guessed correctly!`);
-                const newPlayers = gameState.players.map(p => {
-                    if (p.id === target.id) {
-                    const newHand = [...p.hand];
-                    newHand[targetTileObj.i] = { ...newHand[targetTileObj.i], isRevealed: true };
-                    return { ...p, hand: newHand };
-                    }
-                    return p;
-                });
-                const updatedTarget = newPlayers.find(p => p.id === target.id)!;
-                if(updatedTarget.hand.every(t => t.isRevealed)) updatedTarget.isEliminated = true;
-
-                setGameState(prev => ({
-                    ...prev!,
-                    players: newPlayers,
-                    phase: GamePhase.DRAW, 
-                    currentTurnPlayerId: getNextPlayerId(newPlayers, gameState.currentTurnPlayerId),
-                    drawnTile: null 
-                }));
-                if (gameState.drawnTile) {
-                    const botIdx = newPlayers.findIndex(p => p.id === gameState.currentTurnPlayerId);
-                    const newHand = sortHand([...newPlayers[botIdx].hand, gameState.drawnTile]);
-                    newPlayers[botIdx].hand = newHand;
-                }
-                
-                checkWinner(newPlayers);
-
-          } else {
-               addLog(`Bot guessed wrong.`);
-               endTurn(false);
-          }
-      }
-      
-      if (gameState.phase === GamePhase.RESOLVE) {
-          endTurn(true);
-      }
+      const bot = currentPlayer;
+      if (!gameState || !config || !bot) return;
+      // Bots play from their own view, like everyone else
+      chooseBotMove(gameState, config.tileSet, getBotModel(randomRef.current), randomRef.current)
+        // A failing bot still moves, so the game never waits on it
+        .catch(e => getFallbackBotMove(gameState, config.tileSet, (e as Error).message))
+        .then(move => {
+            // A model may take a while: skip the move if the game changed meanwhile
+            if (gameStateRef.current !== gameState) return;
+            if (move.reasoning) setBotReasoning(prev => ({ ...prev, [bot.id]: move.reasoning! }));
+            dispatch(move.action);
+        });
   };
 
-  const getNextPlayerId = (players: Player[], currentId: string) => {
-      let idx = players.findIndex(p => p.id === currentId);
-      idx = (idx + 1) % players.length;
-      while(players[idx].isEliminated) idx = (idx + 1) % players.length;
-      return players[idx].id;
-  }
-
   // --- Rendering ---
 
   if (!config) {
@@ -517,7 +672,29 @@ function App() {
                     {darkMode ? '☀️' : '🌙'}
                 </button>
             </div>
-            <GameSetup onStart={startGame} />
+            {online ? (
+                <Lobby
+                    room={online.room}
+                    playerId={online.playerId}
+                    status={online.status}
+                    error={online.error}
+                    onStart={() => connectionRef.current?.send({ type: 'start' })}
+                    onLeave={leaveOnline}
+                />
+            ) : (
+                <GameSetup
+                    onStart={startGame}
+                    savedGame={savedGame}
+                    onResume={resumeGame}
+                    onReplay={setReplay}
+                    onHostOnline={(serverUrl, hostConfig) => connectOnline(serverUrl, { type: 'create', config: hostConfig })}
+                    onJoinOnline={(serverUrl, code, { name, avatar, profileId }) => connectOnline(serverUrl, { type: 'join', code, name, avatar, profileId })}
+                    profiles={profiles}
+                    onShowProfiles={() => setShowProfiles(true)}
+                />
+            )}
+            {replay && <ReplayViewer record={replay} onClose={() => setReplay(null)} />}
+            {showProfiles && <ProfilesScreen profiles={profiles} onChange={updateProfiles} onClose={() => setShowProfiles(false)} />}
             
             {showInstructions && (
                 <div className="fixed inset-0 z-[110] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-fade-in">
@@ -540,22 +717,29 @@ function App() {
                         <section>
                             <h3 className="text-xl font-bold text-wood-600 dark:text-wood-400 mb-2">🔢 The Code</h3>
                             <ul className="list-disc pl-5 space-y-1">
-                                <li>There are 24 tiles: Numbers 0-11 in Black and White.</li>
+                                <li>The classic set has 24 tiles: Numbers 0-11 in Black and White. Other tile sets can change the top number, the hand size, or add a third color, Red.</li>
                                 <li>Players' hands are always kept in a specific order:</li>
-                                <li className="font-bold">1. Numerical Order (0 to 11)</li>
-                                <li className="font-bold">2. If numbers are the same, Black is placed to the left of White.</li>
+                                <li className="font-bold">1. Numerical Order (lowest to highest)</li>
+                                <li className="font-bold">2. If numbers are the same, colors follow the tile set's order (Black to the left of White in the classic set).</li>
                             </ul>
                         </section>
                         
                         <section>
                              <h3 className="text-xl font-bold text-wood-600 dark:text-wood-400 mb-2">🃏 The Joker (—)</h3>
-                             <p>If enabled, there are 2 Joker tiles (one Black, one White). Jokers can be placed <strong>anywhere</strong> in your hand!</p>
+                             <p>If enabled, there is a Joker in one or more colors (one Black, one White in the classic set). Jokers can be placed <strong>anywhere</strong> in your hand!</p>
                              <ul className="list-disc pl-5 mt-1 text-sm">
-                                 <li>Drag your own Joker to move it to a different position.</li>
-                                 <li>You can only move each Joker <strong>once</strong>!</li>
+                                 <li>Jokers you are dealt are placed before the first turn, in private: tap each one, pick a slot, then press Ready.</li>
+                                 <li>A Joker you draw can be tapped and placed during that turn.</li>
+                                 <li>While placing, the arrow keys move the Joker, Enter places it and Esc cancels.</li>
+                                 <li>Each Joker is placed only <strong>once</strong>!</li>
                                  <li>When guessing, select the Dash (—) symbol to identify a Joker.</li>
                              </ul>
                         </section>
+
+                        <section>
+                            <h3 className="text-xl font-bold text-wood-600 dark:text-wood-400 mb-2">⚔️ Your Turn</h3>
+                            <p>Draw a tile, then guess an opponent's hidden tile. If right, it is revealed and you may guess again or stop. If wrong, you reveal the tile you just drew. Once the pool is empty there is nothing to draw: a wrong guess makes you reveal one of your own hidden tiles, your choice which.</p>
+                        </section>
                     </div>
 
                     <div className="mt-8 text-center">
@@ -573,7 +757,14 @@ function App() {
     );
   }
 
-  const currentPlayer = gameState?.players.find(p => p.id === gameState?.currentTurnPlayerId);
+  // With hints on, the guess modal greys out values the chosen tile cannot be
+  const guessHint = guessModal ? hints.get(guessModal.targetTileId) : undefined;
+  const guessNote = guessModal ? notebook?.tiles[guessModal.targetTileId] : undefined;
+  const isPossibleGuess = (value: number) => !guessHint?.length || guessHint.some(c => c.value === value);
+  const guessChance = (value: number) => {
+    const candidate = assistMode === AssistMode.HEATMAP ? guessHint?.find(c => c.value === value) : undefined;
+    return candidate ? ` ${Math.round(candidate.probability * 100)}%` : '';
+  };
 
   // Check if we are in single player mode (1 human vs bots)
   const humanCount = config ? config.playerCount - config.botCount : 0;
@@ -599,11 +790,16 @@ function App() {
       <header className="bg-wood-500 dark:bg-slate-800 text-white p-3 shadow-md flex justify-between items-center z-10">
         <div className="flex items-center gap-2">
            <h1 className="font-bold text-lg md:text-xl tracking-tight">Da Vinci Code</h1>
-           {gameState?.phase !== GamePhase.GAME_OVER && (
+           {view?.phase !== GamePhase.GAME_OVER && (
                <>
                 <div className="bg-black/20 px-3 py-1 rounded-full text-xs md:text-sm font-mono">
-                    Move: {gameState?.moveNumber}
+                    Move: {view?.moveNumber}
                 </div>
+                {match && (
+                    <div className="bg-black/20 px-3 py-1 rounded-full text-xs md:text-sm font-mono">
+                        Game {match.results.length + 1}/{match.length}
+                    </div>
+                )}
                 <div className="hidden sm:block bg-black/20 px-3 py-1 rounded-full text-xs md:text-sm font-mono">
                     {currentPlayer?.name}'s Turn
                 </div>
@@ -612,7 +808,11 @@ function App() {
         </div>
         
         <div className="flex items-center gap-2 md:gap-4">
-             {timeLeft > 0 && gameState?.phase !== GamePhase.GAME_OVER && (
+             {config?.clock && currentPlayer && view?.phase !== GamePhase.GAME_OVER ? (
+                 <div className={`font-mono font-bold text-lg md:text-xl ${(clocks[currentPlayer.id] ?? 0) < 10 ? 'text-red-300 animate-pulse' : ''}`}>
+                     {formatClock(clocks[currentPlayer.id] ?? 0)}
+                 </div>
+             ) : timeLeft > 0 && view?.phase !== GamePhase.GAME_OVER && (
                  <div className={`font-mono font-bold text-lg md:text-xl ${timeLeft < 10 ? 'text-red-300 animate-pulse' : ''}`}>
                      {timeLeft}s
                  </div>
@@ -626,6 +826,68 @@ function App() {
                 ✕ <span className="hidden md:inline">Quit</span>
             </button>
 
+            {takebacksLeft > 0 && (
+                <>
+                    <button
+                        onClick={() => takeBack(false)}
+                        disabled={!canTakeBack}
+                        className="p-2 bg-white/10 rounded-full hover:bg-white/20 text-xs md:text-sm font-bold px-3 transition-colors disabled:opacity-40 disabled:hover:bg-white/10"
+                        title={`Take back your last move (${takebacksLeft === Infinity ? 'unlimited' : `${takebacksLeft} left`})`}
+                    >
+                        ↶ <span className="hidden md:inline">Undo</span>
+                    </button>
+                    <button
+                        onClick={() => takeBack(true)}
+                        disabled={!canTakeBack}
+                        className="p-2 bg-white/10 rounded-full hover:bg-white/20 text-xs md:text-sm font-bold px-3 transition-colors disabled:opacity-40 disabled:hover:bg-white/10"
+                        title="Take back your whole last turn, and anything the bots played since"
+                    >
+                        ⏮ <span className="hidden md:inline">Turn</span>
+                    </button>
+                </>
+            )}
+
+            <button 
+                onClick={() => {
+                    const modes = Object.values(AssistMode);
+                    setAssistMode(modes[(modes.indexOf(assistMode) + 1) % modes.length]);
+                }}
+                className={`p-2 rounded-full hover:bg-white/20 text-xs md:text-sm font-bold px-3 transition-colors ${assistMode !== AssistMode.OFF ? 'bg-white/30' : 'bg-white/10'}`}
+                title="Deduction hints"
+            >
+                💡 <span className="hidden md:inline">{ASSIST_MODE_LABELS[assistMode]}</span>
+            </button>
+
+            <button 
+                onClick={() => setNotesMode(!notesMode)}
+                className={`p-2 rounded-full hover:bg-white/20 text-xs md:text-sm font-bold px-3 transition-colors ${notesMode ? 'bg-white/30' : 'bg-white/10'}`}
+                title="Notebook: tap an opponent's tile to take notes"
+            >
+                📝 <span className="hidden md:inline">Notes</span>
+            </button>
+
+            <button 
+                onClick={() => {
+                    setShowChat(!showChat);
+                    setShowLog(false);
+                }}
+                className={`p-2 rounded-full hover:bg-white/20 text-xs md:text-sm font-bold px-3 transition-colors ${showChat ? 'bg-white/30' : 'bg-white/10'}`}
+                title="Commentary"
+            >
+                💬 <span className="hidden md:inline">Chat</span>
+            </button>
+
+            <button 
+                onClick={() => {
+                    setShowLog(!showLog);
+                    setShowChat(false);
+                }}
+                className={`p-2 rounded-full hover:bg-white/20 text-xs md:text-sm font-bold px-3 transition-colors ${showLog ? 'bg-white/30' : 'bg-white/10'}`}
+                title="Game Log"
+            >
+                📜 <span className="hidden md:inline">Log</span>
+            </button>
+
             <button 
                 onClick={() => setShowInstructions(true)}
                 className="p-2 bg-white/10 rounded-full hover:bg-white/20 text-xs md:text-sm font-bold px-3 transition-colors"
@@ -640,30 +902,77 @@ function App() {
       </header>
 
       <main className="flex-1 flex flex-col relative overflow-hidden">
+        {showLog && view && (
+            <GameLog events={view.events} players={view.players} onClose={() => setShowLog(false)} />
+        )}
+        {showChat && (
+            <CommentaryPanel
+                messages={chatMessages}
+                isThinking={isCommentatorThinking}
+                onAsk={askCommentator}
+                onClose={() => setShowChat(false)}
+            />
+        )}
+
         {/* Opponents Area: Scrollable and takes remaining space */}
-        <div className="flex-1 overflow-y-auto p-4 md:p-8">
-            <div className="flex flex-wrap justify-center gap-4 md:gap-8 mb-8 min-h-[160px]">
-                {gameState?.players.filter(p => p.id !== currentPlayer?.id).map(player => {
+        <div className={`flex-1 overflow-y-auto ${compactTable ? 'p-2 md:p-6' : 'p-4 md:p-8'}`}>
+            <div className={`${compactTable ? 'grid grid-cols-2 sm:flex sm:flex-wrap gap-2 md:gap-4' : 'flex flex-wrap gap-4 md:gap-8'} justify-center mb-8 min-h-[160px]`}>
+                {view?.players.filter(p => p.id !== viewer?.id).map(player => {
                     return (
-                    <div key={player.id} className={`bg-white/50 dark:bg-slate-800/50 p-4 rounded-xl border-2 ${player.isEliminated ? 'opacity-50 border-red-400' : 'border-wood-300 dark:border-slate-600'} transition-all`}>
-                        <div className="flex items-center gap-2 mb-3">
+                    <div key={player.id} className={`bg-white/50 dark:bg-slate-800/50 ${compactTable ? 'p-2 min-w-0' : 'p-4'} rounded-xl border-2 ${player.isEliminated ? 'opacity-50 border-red-400' : 'border-wood-300 dark:border-slate-600'} transition-all`}>
+                        <div className={`flex items-center gap-2 ${compactTable ? 'mb-2' : 'mb-3'}`}>
                             <span className="text-xl md:text-2xl">{player.avatar}</span>
-                            <span className="font-bold text-wood-900 dark:text-wood-100 text-sm md:text-base">{player.name}</span>
+                            <span className={`font-bold text-wood-900 dark:text-wood-100 ${compactTable ? 'text-xs md:text-sm truncate' : 'text-sm md:text-base'}`}>{player.name}</span>
+                            {player.difficulty && (
+                                <span className="px-1.5 py-0.5 bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-200 text-[10px] font-bold rounded uppercase">
+                                    {BOT_DIFFICULTY_LABELS[player.difficulty]}
+                                </span>
+                            )}
+                            {online && !player.isBot && !online.room?.seats.find(s => s.playerId === player.id)?.isConnected && (
+                                <span className="text-gray-400 font-bold text-[10px] uppercase">Offline</span>
+                            )}
+                            {config?.clock && !player.isEliminated && (
+                                <span className={`ml-auto font-mono text-xs font-bold ${player.id === currentPlayer?.id ? 'text-wood-700 dark:text-wood-200' : 'text-gray-400'}`}>
+                                    ⏱ {formatClock(clocks[player.id] ?? 0)}
+                                </span>
+                            )}
                             {player.isEliminated && <span className="text-red-600 font-bold text-[10px] uppercase ml-auto">Out</span>}
                         </div>
+                        {botReasoning[player.id] && (
+                            <p className="mb-2 text-[10px] text-blue-700 dark:text-blue-300 italic">💭 {botReasoning[player.id]}</p>
+                        )}
+                        {notesMode ? (
+                            <input
+                                type="text"
+                                value={notebook?.players[player.id] ?? ''}
+                                onChange={(e) => setPlayerNote(player.id, e.target.value.slice(0, 80))}
+                                className="w-full mb-3 px-2 py-1 text-xs rounded-lg border border-wood-200 dark:border-slate-600 bg-white dark:bg-slate-800 dark:text-white focus:ring-2 focus:ring-wood-400 focus:outline-none"
+                                placeholder={`Note on ${player.name}...`}
+                            />
+                        ) : notebook?.players[player.id] && (
+                            <p className="mb-3 text-xs text-gray-600 dark:text-gray-300 italic truncate">📌 {notebook.players[player.id]}</p>
+                        )}
                         {/* Opponent Hand - Cards wrap if needed. Extra gap. Revealed cards pop down. No REV banner. */}
-                        <div className="flex flex-wrap gap-2 md:gap-3 justify-center pb-4">
-                            {player.hand.map((tile, idx) => (
+                        <div className={`flex flex-wrap ${compactTable ? 'gap-1 md:gap-2' : 'gap-2 md:gap-3'} justify-center pb-4`}>
+                            {player.hand.map((tile) => (
                                 <TileComponent 
                                     key={tile.id} 
                                     tile={tile} 
                                     isHidden={!tile.isRevealed}
                                     revealDirection="down" // Pop down
                                     showRevBanner={false} // No text banner for opponents
-                                    isInteractable={!currentPlayer?.isBot && !player.isEliminated && gameState?.phase === GamePhase.GUESS && !tile.isRevealed}
-                                    onClick={() => handleTileClick(player.id, idx, tile.id)}
+                                    isInteractable={!tile.isRevealed && (notesMode || (isMyTurn && !player.isEliminated && view?.phase === GamePhase.GUESS))}
+                                    onClick={() => handleTileClick(player.id, tile.id)}
+                                    hint={hints.get(tile.id)}
+                                    hintMode={assistMode}
+                                    note={notebook?.tiles[tile.id]}
+                                    compact={compactTable}
                                 />
                             ))}
+                            {/* Online, other seats take turns on this screen too: show their drawn tile face down */}
+                            {player.id === currentPlayer?.id && view?.drawnTile && (
+                                <TileComponent tile={view.drawnTile} isNew={true} isHidden={!view.drawnTile.isRevealed} compact={compactTable} />
+                            )}
                         </div>
                     </div>
                 )})}
@@ -672,19 +981,69 @@ function App() {
             <div className="h-12 md:h-0"></div>
         </div>
 
-        {gameState?.winnerId && (
+        {view?.winnerId && (
             <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm">
                 <div className="bg-white dark:bg-slate-800 p-8 rounded-2xl shadow-2xl text-center transform scale-110">
                     <h2 className="text-4xl font-bold text-wood-600 dark:text-wood-400 mb-2">Game Over</h2>
-                    <p className="text-2xl text-gray-700 dark:text-gray-200 mb-6">
-                        {gameState.players.find(p => p.id === gameState.winnerId)?.name} Wins!
+                    <p className="text-2xl text-gray-700 dark:text-gray-200 mb-2">
+                        {view.players.find(p => p.id === view.winnerId)?.name} Wins!
                     </p>
-                    <button 
-                        onClick={() => setConfig(null)}
-                        className="px-6 py-3 bg-wood-500 text-white rounded-full font-bold shadow-lg hover:bg-wood-600"
-                    >
-                        New Game
-                    </button>
+                    <p className="text-xs font-mono text-gray-400 mb-6">Seed: {config.seed}</p>
+                    {match && (
+                        <div className="mb-6 min-w-[16rem]">
+                            <MatchScoreboard match={match} players={view.players} />
+                            {matchOver && (
+                                <p className="mt-3 font-bold text-wood-700 dark:text-wood-300">
+                                    {matchWinner ? `🏆 ${matchWinner.name} wins the match!` : 'The match ends level.'}
+                                </p>
+                            )}
+                        </div>
+                    )}
+                    <div className="flex flex-col gap-3 items-center">
+                        {!online && (match && !matchOver ? (
+                            <button
+                                onClick={playAgain}
+                                className="px-6 py-3 bg-wood-500 text-white rounded-full font-bold shadow-lg hover:bg-wood-600"
+                            >
+                                Next Game ({match.results.length + 1}/{match.length})
+                            </button>
+                        ) : (
+                            <button
+                                onClick={rematch}
+                                className="px-6 py-3 bg-wood-500 text-white rounded-full font-bold shadow-lg hover:bg-wood-600"
+                            >
+                                Rematch
+                            </button>
+                        ))}
+                        <button 
+                            onClick={() => (online ? leaveOnline() : setConfig(null))}
+                            className="px-6 py-2 bg-wood-100 dark:bg-slate-700 text-wood-800 dark:text-slate-200 rounded-full font-bold text-sm hover:bg-wood-200"
+                        >
+                            New Game
+                        </button>
+                        {recordRef.current && !online && (
+                            <div className="flex gap-2">
+                                <button
+                                    onClick={() => setReplay(recordRef.current)}
+                                    className="px-4 py-2 bg-wood-100 dark:bg-slate-700 text-wood-800 dark:text-slate-200 rounded-full font-bold text-sm hover:bg-wood-200"
+                                >
+                                    Watch Replay
+                                </button>
+                                <button
+                                    onClick={() => setAnalysisRecord(recordRef.current)}
+                                    className="px-4 py-2 bg-wood-100 dark:bg-slate-700 text-wood-800 dark:text-slate-200 rounded-full font-bold text-sm hover:bg-wood-200"
+                                >
+                                    Analyze
+                                </button>
+                                <button
+                                    onClick={() => downloadRecord(recordRef.current!)}
+                                    className="px-4 py-2 bg-wood-100 dark:bg-slate-700 text-wood-800 dark:text-slate-200 rounded-full font-bold text-sm hover:bg-wood-200"
+                                >
+                                    Export Record
+                                </button>
+                            </div>
+                        )}
+                    </div>
                 </div>
             </div>
         )}
@@ -694,22 +1053,47 @@ function App() {
             <div className="max-w-4xl mx-auto">
                 <div className="flex flex-col sm:flex-row justify-between items-center gap-4 mb-4">
                     <div className="flex items-center gap-3">
-                        <span className="text-3xl md:text-4xl">{currentPlayer?.avatar}</span>
+                        <span className="text-3xl md:text-4xl">{viewer?.avatar}</span>
                         <div>
                             <h2 className="text-lg md:text-xl font-bold dark:text-white">
-                                {currentPlayer?.isBot ? `${currentPlayer.name}'s turn...` : "Your Hand"}
+                                Your Hand
+                                {config?.clock && viewer && (
+                                    <span className={`ml-2 font-mono text-sm ${isMyTurn ? 'text-wood-600 dark:text-wood-300' : 'text-gray-400'}`}>
+                                        ⏱ {formatClock(clocks[viewer.id] ?? 0)}
+                                    </span>
+                                )}
                             </h2>
                             <p className="text-xs text-gray-500 dark:text-gray-400">
-                                {gameState?.phase === GamePhase.DRAW ? "Time to draw..." : 
-                                    gameState?.phase === GamePhase.GUESS ? "Choose a tile to guess." :
-                                    gameState?.phase === GamePhase.RESOLVE ? "Correct! Continue or end turn?" :
+                                {!isMyTurn ? `Waiting for ${currentPlayer?.name}...` :
+                                    view?.phase === GamePhase.SETUP ? "Tap your Joker to place it anywhere in your hand, then press Ready." :
+                                    view?.phase === GamePhase.DRAW ? "Time to draw..." : 
+                                    view?.phase === GamePhase.GUESS ? "Choose a tile to guess." :
+                                    view?.phase === GamePhase.RESOLVE ? "Correct! Continue or end turn?" :
+                                    view?.phase === GamePhase.REVEAL_OWN ? "Wrong, and the pool is empty: pick one of your tiles to reveal." :
                                     "Waiting..."}
                             </p>
                         </div>
                     </div>
                     
                     <div className="flex gap-2">
-                        {gameState?.phase === GamePhase.RESOLVE && !currentPlayer?.isBot && (
+                        {view?.phase === GamePhase.SETUP && isMyTurn && (
+                            <button
+                                onClick={endTurn}
+                                className="px-4 py-2 bg-green-500 text-white rounded-lg font-bold text-sm hover:bg-green-600"
+                            >
+                                Ready
+                            </button>
+                        )}
+                        {view?.phase === GamePhase.REVEAL_OWN && isMyTurn && (
+                            <button
+                                onClick={confirmReveal}
+                                disabled={!revealChoice}
+                                className="px-4 py-2 bg-red-500 text-white rounded-lg font-bold text-sm hover:bg-red-600 disabled:opacity-50"
+                            >
+                                Reveal
+                            </button>
+                        )}
+                        {view?.phase === GamePhase.RESOLVE && isMyTurn && (
                             <>
                                 <button 
                                     onClick={continueTurn}
@@ -718,7 +1102,7 @@ function App() {
                                     Again
                                 </button>
                                 <button 
-                                    onClick={() => endTurn(true)}
+                                    onClick={endTurn}
                                     className="px-4 py-2 bg-gray-500 text-white rounded-lg font-bold text-sm hover:bg-gray-600"
                                 >
                                     Finish
@@ -730,44 +1114,53 @@ function App() {
 
                 <div className="flex flex-col items-center gap-2 min-h-[90px] w-full">
                         {/* Centered Draw Button */}
-                        {gameState?.phase === GamePhase.DRAW && !currentPlayer?.isBot && (
+                        {view?.phase === GamePhase.DRAW && isMyTurn && (
                         <button 
                             onClick={drawTile}
                             className="mb-2 px-8 py-2 bg-gradient-to-r from-blue-500 to-blue-600 text-white rounded-xl shadow-lg font-bold text-lg hover:scale-105 transition-transform animate-pulse"
                         >
-                            Draw ({gameState.pool.length})
+                            Draw ({view.pool.length})
                         </button>
                     )}
 
+                    {placingJoker && viewer && canPlaceJoker(placingJoker) ? (
+                        <JokerPlacer
+                            hand={viewer.hand}
+                            joker={placingJoker}
+                            onConfirm={placeJoker}
+                            onCancel={() => setPlacingJokerId(null)}
+                        />
+                    ) : (
+                        <>
                         {/* User/Bot Hand - Pop up revealed cards. Increased gap for REV banner visibility. */}
-                    <div className="flex flex-wrap gap-3 md:gap-6 justify-center max-w-full px-2 pt-2 md:pt-4">
-                            {currentPlayer?.hand.map((tile, idx) => (
-                            <TileComponent 
-                                key={tile.id} 
-                                tile={tile} 
-                                isHidden={currentPlayer.isBot} 
-                                revealDirection="up" // Pop up
-                                showRevBanner={true} // Show banner for user
-                                onClick={() => handleTileClick(currentPlayer.id, idx, tile.id)}
-                                draggable={!currentPlayer.isBot && tile.isJoker && !tile.isPlaced && !tile.isRevealed}
-                                onDragStart={(e) => handleDragStart(e, tile.id)}
-                                onDrop={(e) => handleDrop(e, tile.id)}
-                            />
-                            ))}
-                    </div>
-                    
-                    {gameState?.drawnTile && (
-                        <div className="flex flex-col items-center gap-1 border-l-2 pl-4 md:pl-8 border-dashed border-gray-300 dark:border-slate-600 mt-2">
-                            <span className="text-[10px] uppercase font-bold text-blue-500">Drawn</span>
-                            <TileComponent 
-                                tile={gameState.drawnTile} 
-                                isNew={true} 
-                                isHidden={currentPlayer?.isBot && !gameState.drawnTile.isRevealed} 
-                                onClick={() => handleTileClick(currentPlayer?.id, -1, gameState.drawnTile!.id)}
-                                draggable={!currentPlayer?.isBot && gameState.drawnTile.isJoker && !gameState.drawnTile.isPlaced}
-                                onDragStart={(e) => handleDragStart(e, gameState.drawnTile!.id)}
-                            />
+                        <div className="flex flex-wrap gap-3 md:gap-6 justify-center max-w-full px-2 pt-2 md:pt-4">
+                                {viewer?.hand.map((tile) => (
+                                <TileComponent 
+                                    key={tile.id} 
+                                    tile={tile} 
+                                    revealDirection="up" // Pop up
+                                    showRevBanner={true} // Show banner for user
+                                    onClick={() => canPlaceJoker(tile) ? setPlacingJokerId(tile.id) : handleTileClick(viewer.id, tile.id)}
+                                    isInteractable={canPlaceJoker(tile) || (isMyTurn && view?.phase === GamePhase.REVEAL_OWN && !tile.isRevealed)}
+                                    isSelected={revealChoice === tile.id}
+                                    isPlaceable={canPlaceJoker(tile)}
+                                />
+                                ))}
                         </div>
+
+                        {view?.drawnTile && viewer?.id === currentPlayer?.id && (
+                            <div className="flex flex-col items-center gap-1 border-l-2 pl-4 md:pl-8 border-dashed border-gray-300 dark:border-slate-600 mt-2">
+                                <span className="text-[10px] uppercase font-bold text-blue-500">Drawn</span>
+                                <TileComponent 
+                                    tile={view.drawnTile} 
+                                    isNew={true} 
+                                    onClick={() => setPlacingJokerId(view.drawnTile!.id)}
+                                    isInteractable={canPlaceJoker(view.drawnTile)}
+                                    isPlaceable={canPlaceJoker(view.drawnTile)}
+                                />
+                            </div>
+                        )}
+                        </>
                     )}
                 </div>
             </div>
@@ -826,21 +1219,24 @@ function App() {
             <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl max-w-sm w-full p-6 animate-bounce-in">
                 <h3 className="text-xl font-bold text-center mb-6 dark:text-white">What number?</h3>
                 <div className="grid grid-cols-4 gap-3 mb-6">
-                    {config?.includeJokers && (
+                    {config && hasJokers(config.tileSet) && (
                         <button
                             onClick={() => submitGuess(JOKER_VALUE)}
-                            className="col-span-4 py-2 rounded-xl bg-purple-100 dark:bg-purple-900 hover:bg-purple-200 dark:hover:bg-purple-800 text-purple-800 dark:text-purple-100 font-bold border-2 border-purple-300 transition-colors"
+                            disabled={!isPossibleGuess(JOKER_VALUE)}
+                            className="col-span-4 py-2 rounded-xl bg-purple-100 dark:bg-purple-900 hover:bg-purple-200 dark:hover:bg-purple-800 text-purple-800 dark:text-purple-100 font-bold border-2 border-purple-300 transition-colors disabled:opacity-30 disabled:pointer-events-none"
                         >
-                            JOKER (—)
+                            JOKER (—){guessChance(JOKER_VALUE)}
                         </button>
                     )}
-                    {Array.from({ length: TOTAL_NUMBERS }).map((_, i) => (
+                    {Array.from({ length: (config?.tileSet.maxNumber ?? 0) + 1 }).map((_, i) => (
                         <button
                             key={i}
                             onClick={() => submitGuess(i)}
-                            className="aspect-square rounded-xl bg-wood-100 dark:bg-slate-700 hover:bg-wood-500 hover:text-white dark:hover:bg-blue-600 transition-colors text-xl font-bold text-wood-900 dark:text-white"
+                            disabled={!isPossibleGuess(i)}
+                            className="aspect-square flex flex-col items-center justify-center rounded-xl bg-wood-100 dark:bg-slate-700 hover:bg-wood-500 hover:text-white dark:hover:bg-blue-600 transition-colors text-xl font-bold text-wood-900 dark:text-white disabled:opacity-30 disabled:pointer-events-none"
                         >
-                            {i}
+                            <span className={guessNote?.crossed.includes(i) ? 'line-through opacity-50' : guessNote?.marked.includes(i) ? 'text-green-600' : ''}>{i}</span>
+                            <span className="text-[10px] font-normal leading-none">{guessChance(i)}</span>
                         </button>
                     ))}
                 </div>
@@ -854,6 +1250,26 @@ function App() {
         </div>
       )}
 
+      {/* Notes on an opponent's tile */}
+      {noteTarget && (
+        <NotesEditor
+            title={`Notes: ${view?.players.find(p => p.id === noteTarget.playerId)?.name}'s tile`}
+            note={notebook?.tiles[noteTarget.tileId] ?? EMPTY_NOTE}
+            tileSet={config?.tileSet ?? CLASSIC_TILE_SET}
+            onChange={(note) => setTileNote(noteTarget.tileId, note)}
+            onClose={() => setNoteTarget(null)}
+        />
+      )}
+
+      {replay && <ReplayViewer record={replay} onClose={() => setReplay(null)} />}
+      {analysisRecord && (
+          <GameAnalysis record={analysisRecord} playerId={viewerId} onClose={() => setAnalysisRecord(null)} />
+      )}
+
+      {violation && (
+          <DebugOverlay problems={violation.problems} snapshot={violation.snapshot} onDismiss={() => setViolation(null)} />
+      )}
+
       {showInstructions && (
           <div className="fixed inset-0 z-[110] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-fade-in">
             <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl max-w-2xl w-full p-6 md:p-8 max-h-[90vh] overflow-y-auto border-4 border-wood-300 dark:border-slate-600 relative">
@@ -871,11 +1287,37 @@ function App() {
                     </section>
                     <section>
                         <h3 className="font-bold text-wood-600 dark:text-wood-400 mb-1">🔢 Hand Order</h3>
-                        <p>Hand is always sorted 0 to 11. For same numbers, Black is on the left of White.</p>
+                        <p>Hand is always sorted 0 to {config?.tileSet.maxNumber}. For same numbers, the colors go {config?.tileSet.colors.map(c => COLOR_NAMES[c]).join(', ')} from left to right.</p>
                     </section>
+                    {config && (config.clock || config.timerSeconds > 0) && (
+                        <section>
+                            <h3 className="font-bold text-wood-600 dark:text-wood-400 mb-1">⏱ Time</h3>
+                            <p>
+                                {config.clock
+                                    ? `Each seat has ${formatClock(config.clock.bankSeconds)} for the whole game, plus ${config.clock.incrementSeconds}s after every turn.`
+                                    : `${config.timerSeconds} seconds per turn.`}
+                                {' '}Out of time: {TIMEOUT_POLICY_LABELS[config.timeoutPolicy ?? TimeoutPolicy.AUTO_PLAY].toLowerCase()}.
+                            </p>
+                        </section>
+                    )}
+                    {config && !online && getTakebacksLeft(config, 0) > 0 && (
+                        <section>
+                            <h3 className="font-bold text-wood-600 dark:text-wood-400 mb-1">↶ Takebacks</h3>
+                            <p>
+                                Undo your last move, or your whole last turn along with anything played since, as long as no other human player has moved since.
+                                {' '}{config.takebackLimit === undefined ? 'No limit this game.' : `${config.takebackLimit} per player this game.`} Every takeback shows in the game log.
+                            </p>
+                        </section>
+                    )}
+                    {config && hasJokers(config.tileSet) && (
+                        <section>
+                            <h3 className="font-bold text-wood-600 dark:text-wood-400 mb-1">🃏 Jokers</h3>
+                            <p>A Joker can sit anywhere in a hand. Dealt Jokers are placed before the first draw, a drawn one during that turn, each only once.</p>
+                        </section>
+                    )}
                     <section>
                         <h3 className="font-bold text-wood-600 dark:text-wood-400 mb-1">⚔️ Turn</h3>
-                        <p>Draw a tile, then guess an opponent's tile. If right, you can guess again or end turn. If wrong, you must reveal the tile you just drew.</p>
+                        <p>Draw a tile, then guess an opponent's tile. If right, you can guess again or end turn. If wrong, you must reveal the tile you just drew{config?.freeEmptyPoolGuesses ? '. Once the pool is empty, wrong guesses cost nothing (house rule).' : ', or one of your own tiles once the pool is empty.'}</p>
                     </section>
                 </div>
                 <div className="mt-8 text-center">
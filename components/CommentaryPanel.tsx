@@ -0,0 +1,78 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChatMessage } from '../types';
+
+interface CommentaryPanelProps {
+  messages: ChatMessage[];
+  isThinking: boolean;
+  onAsk: (question: string) => void;
+  onClose: () => void;
+}
+
+const SENDER_CLASSES: Record<ChatMessage['sender'], string> = {
+  user: 'self-end bg-wood-500 text-white',
+  ai: 'self-start bg-wood-100 dark:bg-slate-700 text-gray-800 dark:text-gray-100',
+  system: 'self-center bg-transparent text-gray-400 italic text-[10px]',
+};
+
+const CommentaryPanel: React.FC<CommentaryPanelProps> = ({ messages, isThinking, onAsk, onClose }) => {
+  const [question, setQuestion] = useState('');
+  const endRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest message in sight
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages.length, isThinking]);
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!question.trim() || isThinking) return;
+    onAsk(question.trim());
+    setQuestion('');
+  };
+
+  return (
+    <div className="absolute inset-y-0 right-0 z-40 w-full sm:w-80 flex flex-col bg-white/95 dark:bg-slate-800/95 backdrop-blur-sm shadow-2xl border-l border-wood-200 dark:border-slate-700">
+      <div className="flex items-center justify-between p-3 border-b border-wood-200 dark:border-slate-700">
+        <h3 className="font-bold text-wood-700 dark:text-wood-300">Commentary</h3>
+        <button
+          onClick={onClose}
+          className="text-gray-500 hover:text-gray-800 dark:text-gray-400 dark:hover:text-white font-bold"
+        >
+          ✕
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 flex flex-col gap-2">
+        {messages.length === 0 && (
+          <p className="text-center text-xs text-gray-400 py-4">The commentator speaks up when something big happens. Ask it about the rules any time.</p>
+        )}
+        {messages.map(message => (
+          <div key={message.id} className={`max-w-[85%] px-3 py-2 rounded-xl text-xs ${SENDER_CLASSES[message.sender]}`}>
+            {message.text}
+          </div>
+        ))}
+        {isThinking && <div className="self-start text-xs text-gray-400 animate-pulse">…</div>}
+        <div ref={endRef} />
+      </div>
+
+      <form onSubmit={submit} className="p-3 flex gap-2 border-t border-wood-200 dark:border-slate-700">
+        <input
+          type="text"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          className="flex-1 px-2 py-1 text-xs rounded-lg border border-wood-200 dark:border-slate-600 bg-white dark:bg-slate-800 dark:text-white focus:outline-none"
+          placeholder="Ask about the rules..."
+        />
+        <button
+          type="submit"
+          disabled={isThinking || !question.trim()}
+          className="px-3 py-1 bg-wood-500 hover:bg-wood-600 disabled:opacity-50 text-white text-xs font-bold rounded-lg"
+        >
+          Ask
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default CommentaryPanel;
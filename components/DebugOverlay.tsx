@@ -0,0 +1,49 @@
+import React, { useState } from 'react';
+import { GameState } from '../types';
+
+interface DebugOverlayProps {
+  problems: string[];
+  snapshot: GameState; // The state that broke the invariants
+  onDismiss: () => void;
+}
+
+// Development builds only: what validateGameState found wrong after the last transition,
+// with the offending state to copy into a bug report
+const DebugOverlay: React.FC<DebugOverlayProps> = ({ problems, snapshot, onDismiss }) => {
+  const [copied, setCopied] = useState(false);
+  const json = JSON.stringify(snapshot, null, 2);
+
+  const copy = () => {
+    navigator.clipboard?.writeText(json).then(() => setCopied(true));
+  };
+
+  return (
+    <div className="fixed bottom-4 left-4 z-[120] w-[min(32rem,calc(100vw-2rem))] max-h-[70vh] flex flex-col bg-white dark:bg-slate-900 border-2 border-red-500 rounded-xl shadow-2xl text-sm">
+      <div className="flex items-center justify-between px-3 py-2 bg-red-500 text-white rounded-t-lg">
+        <h3 className="font-bold">Game state invariants broken (move {snapshot.moveNumber}, {snapshot.phase})</h3>
+        <button onClick={onDismiss} className="font-bold" title="Dismiss">
+          ✕
+        </button>
+      </div>
+      <ul className="px-4 py-2 list-disc list-inside text-red-700 dark:text-red-300 space-y-1">
+        {problems.map((problem, i) => (
+          <li key={i}>{problem}</li>
+        ))}
+      </ul>
+      <details className="px-3 pb-3 min-h-0 flex flex-col">
+        <summary className="cursor-pointer text-gray-600 dark:text-gray-400 font-bold py-1">State snapshot</summary>
+        <pre className="mt-1 p-2 overflow-auto max-h-[40vh] bg-gray-100 dark:bg-slate-800 text-gray-800 dark:text-gray-200 rounded text-[10px] leading-tight">
+          {json}
+        </pre>
+        <button
+          onClick={copy}
+          className="mt-2 self-start px-3 py-1 bg-gray-200 dark:bg-slate-700 rounded font-bold text-xs hover:bg-gray-300 dark:hover:bg-slate-600"
+        >
+          {copied ? 'Copied' : 'Copy JSON'}
+        </button>
+      </details>
+    </div>
+  );
+};
+
+export default DebugOverlay;
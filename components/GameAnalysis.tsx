@@ -0,0 +1,158 @@
+import React, { useMemo, useState } from 'react';
+import { GameRecord, GameState } from '../types';
+import { COLOR_NAMES } from '../constants';
+import { analyzeGame, DecisionRating, GuessStake } from '../game/analysis';
+import { replayRecord } from '../game/record';
+import { valueLabel } from '../game/events';
+
+interface GameAnalysisProps {
+  record: GameRecord; // A finished game
+  playerId?: string; // Seat to review first
+  onClose: () => void;
+}
+
+const RATING_STYLES: Record<DecisionRating, { label: string; className: string }> = {
+  [DecisionRating.SAFE]: { label: 'Safe', className: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200' },
+  [DecisionRating.FAIR]: { label: 'Fair risk', className: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200' },
+  [DecisionRating.RISKY]: { label: 'Risky', className: 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200' },
+  [DecisionRating.TOO_CAUTIOUS]: { label: 'Too cautious', className: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200' },
+};
+
+const STAKE_LABELS: Record<GuessStake, string> = {
+  DRAWN_TILE: 'the drawn tile',
+  OWN_TILE: 'a tile from the hand',
+  NOTHING: 'nothing',
+};
+
+const percent = (chance: number) => `${Math.round(chance * 100)}%`;
+
+// Post-game review for one seat at a time: every guess with the odds it had, tiles that were
+// worked out but left alone, and how risky each "guess again or stop" choice was
+const GameAnalysis: React.FC<GameAnalysisProps> = ({ record, playerId, onClose }) => {
+  const analysis = useMemo(() => analyzeGame(record), [record]);
+  const finalState: GameState = useMemo(() => {
+    const states = replayRecord(record);
+    return states[states.length - 1];
+  }, [record]);
+  const [seatId, setSeatId] = useState(playerId ?? finalState.players[0].id);
+
+  const nameOf = (id: string) => finalState.players.find(p => p.id === id)?.name ?? id;
+  const tileText = (ownerId: string, tileId: string) => {
+    const tile = finalState.players.flatMap(p => p.hand).find(t => t.id === tileId);
+    return `${nameOf(ownerId)}'s ${tile ? COLOR_NAMES[tile.color] : ''} tile`;
+  };
+
+  const guesses = analysis.guesses.filter(g => g.playerId === seatId);
+  const missed = analysis.missedTiles.filter(m => m.playerId === seatId);
+  const decisions = analysis.decisions.filter(d => d.playerId === seatId);
+  const correct = guesses.filter(g => g.isCorrect).length;
+  const impossible = guesses.filter(g => g.chance === 0).length;
+  const risky = decisions.filter(d => d.rating === DecisionRating.RISKY || d.rating === DecisionRating.TOO_CAUTIOUS).length;
+
+  const section = 'bg-white/50 dark:bg-slate-800/50 p-4 rounded-xl border-2 border-wood-300 dark:border-slate-600';
+  const heading = 'text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-2';
+  const empty = <p className="text-sm text-gray-500 dark:text-gray-400">Nothing here.</p>;
+
+  return (
+    <div className="fixed inset-0 z-[130] flex flex-col bg-wood-100 dark:bg-slate-900">
+      <header className="bg-wood-500 dark:bg-slate-800 text-white p-3 shadow-md flex justify-between items-center gap-2">
+        <div className="flex items-center gap-2">
+          <h1 className="font-bold text-lg md:text-xl tracking-tight">Analysis</h1>
+          <select
+            value={seatId}
+            onChange={(e) => setSeatId(e.target.value)}
+            className="px-2 py-1 text-sm font-bold rounded-lg bg-black/20 text-white focus:outline-none"
+          >
+            {finalState.players.map(p => (
+              <option key={p.id} value={p.id} className="text-black">{p.avatar} {p.name}</option>
+            ))}
+          </select>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 bg-white/10 rounded-full hover:bg-white/20 text-xs md:text-sm font-bold px-3 transition-colors"
+        >
+          ✕ Close
+        </button>
+      </header>
+
+      <div className="flex-1 overflow-y-auto p-4 md:p-8 space-y-4 max-w-3xl w-full mx-auto">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-center">
+          {[
+            { label: 'Correct guesses', value: `${correct}/${guesses.length}` },
+            { label: 'Provably wrong', value: impossible },
+            { label: 'Missed tiles', value: missed.length },
+            { label: 'Questionable calls', value: risky },
+          ].map(({ label, value }) => (
+            <div key={label} className="bg-white dark:bg-slate-800 rounded-xl p-3 shadow">
+              <div className="text-2xl font-bold text-wood-700 dark:text-wood-300">{value}</div>
+              <div className="text-[10px] uppercase font-bold text-gray-400">{label}</div>
+            </div>
+          ))}
+        </div>
+
+        <section className={section}>
+          <h3 className={heading}>Guesses</h3>
+          {guesses.length === 0 ? empty : (
+            <ul className="space-y-1 text-sm dark:text-gray-200">
+              {guesses.map(g => (
+                <li key={g.step} className="flex flex-wrap items-center gap-2">
+                  <span className="font-mono text-[10px] text-gray-400 w-14">Move {g.moveNumber}</span>
+                  <span>{g.isCorrect ? '✅' : '❌'} {valueLabel(g.value)} on {tileText(g.targetId, g.tileId)}</span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400">
+                    {g.possibleValues} possible value{g.possibleValues === 1 ? '' : 's'}, {percent(g.chance)} chance
+                  </span>
+                  {g.chance === 0 && (
+                    <span className="px-2 py-0.5 rounded text-[10px] font-bold bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-200">
+                      Provably wrong
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <section className={section}>
+          <h3 className={heading}>Worked out but not guessed</h3>
+          {missed.length === 0 ? empty : (
+            <ul className="space-y-1 text-sm dark:text-gray-200">
+              {missed.map(m => (
+                <li key={m.tileId} className="flex flex-wrap items-center gap-2">
+                  <span className="font-mono text-[10px] text-gray-400 w-14">Move {m.moveNumber}</span>
+                  <span>{tileText(m.targetId, m.tileId)} could only be {valueLabel(m.value)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <section className={section}>
+          <h3 className={heading}>Guess again or stop</h3>
+          {decisions.length === 0 ? empty : (
+            <ul className="space-y-1 text-sm dark:text-gray-200">
+              {decisions.map(d => (
+                <li key={d.step} className="flex flex-wrap items-center gap-2">
+                  <span className="font-mono text-[10px] text-gray-400 w-14">Move {d.moveNumber}</span>
+                  <span>{d.continued ? 'Guessed again' : 'Stopped'}</span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400">
+                    best next guess {percent(d.bestChance)}, {STAKE_LABELS[d.stake]} at stake
+                  </span>
+                  <span className={`px-2 py-0.5 rounded text-[10px] font-bold ${RATING_STYLES[d.rating].className}`}>
+                    {RATING_STYLES[d.rating].label}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <p className="text-[10px] text-gray-500 dark:text-gray-400">
+          Every call is judged from what this seat could see at the time: its own tiles, revealed tiles, hand order and earlier wrong guesses.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default GameAnalysis;
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { GameEvent, GameEventType, Player } from '../types';
+import { describeEvent, matchesFilter, EventFilter, EVENT_FILTER_LABELS } from '../game/events';
+
+interface GameLogProps {
+  events: GameEvent[];
+  players: Player[];
+  onClose: () => void;
+}
+
+const EVENT_ACCENTS: Partial<Record<GameEventType, string>> = {
+  [GameEventType.GUESS_MADE]: 'border-blue-400',
+  [GameEventType.TILE_REVEALED]: 'border-red-400',
+  [GameEventType.PLAYER_ELIMINATED]: 'border-red-600',
+  [GameEventType.GAME_WON]: 'border-green-500',
+};
+
+const GameLog: React.FC<GameLogProps> = ({ events, players, onClose }) => {
+  const [filter, setFilter] = useState(EventFilter.ALL);
+  const [playerId, setPlayerId] = useState<string | null>(null);
+
+  // Newest first
+  const visible = events.filter(e => matchesFilter(e, filter, playerId)).reverse();
+
+  return (
+    <div className="absolute inset-y-0 right-0 z-40 w-full sm:w-80 flex flex-col bg-white/95 dark:bg-slate-800/95 backdrop-blur-sm shadow-2xl border-l border-wood-200 dark:border-slate-700">
+      <div className="flex items-center justify-between p-3 border-b border-wood-200 dark:border-slate-700">
+        <h3 className="font-bold text-wood-700 dark:text-wood-300">Game Log</h3>
+        <button
+          onClick={onClose}
+          className="text-gray-500 hover:text-gray-800 dark:text-gray-400 dark:hover:text-white font-bold"
+        >
+          ✕
+        </button>
+      </div>
+
+      <div className="p-3 space-y-2 border-b border-wood-200 dark:border-slate-700">
+        <div className="flex gap-1">
+          {Object.values(EventFilter).map(f => (
+            <button
+              key={f}
+              onClick={() => setFilter(f)}
+              className={`flex-1 py-1 rounded-lg text-[10px] font-bold uppercase transition-colors ${
+                filter === f
+                  ? 'bg-wood-500 text-white'
+                  : 'bg-wood-100 text-wood-800 dark:bg-slate-700 dark:text-slate-200 hover:bg-wood-200'
+              }`}
+            >
+              {EVENT_FILTER_LABELS[f]}
+            </button>
+          ))}
+        </div>
+        <select
+          value={playerId ?? ''}
+          onChange={(e) => setPlayerId(e.target.value || null)}
+          className="w-full px-2 py-1 text-xs rounded-lg border border-wood-200 dark:border-slate-600 bg-white dark:bg-slate-800 dark:text-white focus:outline-none"
+        >
+          <option value="">All players</option>
+          {players.map(p => (
+            <option key={p.id} value={p.id}>{p.avatar} {p.name}</option>
+          ))}
+        </select>
+      </div>
+
+      <ol className="flex-1 overflow-y-auto p-3 space-y-2">
+        {visible.length === 0 && (
+          <li className="text-center text-xs text-gray-400 py-4">Nothing yet.</li>
+        )}
+        {visible.map(event => (
+          <li
+            key={event.seq}
+            className={`flex gap-2 items-start text-xs text-gray-700 dark:text-gray-300 pl-2 border-l-4 ${EVENT_ACCENTS[event.type] ?? 'border-gray-200 dark:border-slate-600'}`}
+          >
+            <span className="font-mono text-[10px] text-gray-400 shrink-0 w-6">#{event.moveNumber}</span>
+            <span>{describeEvent(event, players)}</span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default GameLog;
@@ -1,16 +1,77 @@
 import React, { useState, useEffect } from 'react';
-import { GameConfig, PlayerSetupConfig } from '../types';
-import { AVATARS } from '../constants';
+import { GameConfig, GameRecord, PlayerSetupConfig, PlayerProfile, BotDifficulty, TileColor, TileSet, TimeoutPolicy } from '../types';
+import {
+  AVATARS,
+  BOT_DIFFICULTY_LABELS,
+  TIMEOUT_POLICY_LABELS,
+  DEFAULT_BOT_DIFFICULTY,
+  CLASSIC_TILE_SET,
+  TILE_SET_PRESETS,
+  MAX_PLAYERS,
+  MAX_TILE_NUMBER,
+  describeTileSet,
+  sameTileSet,
+} from '../constants';
+import { getDealProblem, scaleTileSet } from '../game/engine';
+import { generateSeed, MAX_SEED } from '../game/random';
+import { allowsTakebacks } from '../game/takeback';
+import { SavedGame } from '../services/saveGame';
+import { readRecordFile } from '../services/recordFile';
+import { RECORD_FILE_EXTENSION } from '../game/record';
+import { getDefaultServerUrl } from '../services/multiplayer';
 
 interface GameSetupProps {
   onStart: (config: GameConfig) => void;
+  savedGame?: SavedGame | null;
+  onResume?: () => void;
+  onReplay?: (record: GameRecord) => void;
+  onHostOnline?: (serverUrl: string, config: GameConfig) => void;
+  onJoinOnline?: (serverUrl: string, code: string, player: PlayerSetupConfig) => void;
+  profiles?: PlayerProfile[];
+  onShowProfiles?: () => void;
 }
 
-const GameSetup: React.FC<GameSetupProps> = ({ onStart }) => {
+const MATCH_LENGTHS = [1, 3, 5];
+const CLOCK_BANK_MINUTES = [3, 5, 10, 20];
+const CLOCK_INCREMENTS = [0, 5, 10, 30];
+const TAKEBACK_LIMITS = [0, 1, 3, null]; // null for no limit
+const MAX_NUMBERS = Array.from({ length: MAX_TILE_NUMBER - 4 }, (_, i) => i + 5);
+const HAND_SIZES = [2, 3, 4, 5, 6];
+
+// Where the optional red tiles sit among equal numbers
+const COLOR_ORDERS: { label: string; colors: TileColor[] }[] = [
+  { label: 'No red', colors: [TileColor.BLACK, TileColor.WHITE] },
+  { label: 'Red first', colors: [TileColor.RED, TileColor.BLACK, TileColor.WHITE] },
+  { label: 'Red middle', colors: [TileColor.BLACK, TileColor.RED, TileColor.WHITE] },
+  { label: 'Red last', colors: [TileColor.BLACK, TileColor.WHITE, TileColor.RED] },
+];
+
+const GameSetup: React.FC<GameSetupProps> = ({
+  onStart,
+  savedGame,
+  onResume,
+  onReplay,
+  onHostOnline,
+  onJoinOnline,
+  profiles = [],
+  onShowProfiles,
+}) => {
   const [playerCount, setPlayerCount] = useState(2);
   const [timerSeconds, setTimerSeconds] = useState(60);
   const [botCount, setBotCount] = useState(1);
-  const [includeJokers, setIncludeJokers] = useState(false);
+  const [tileSet, setTileSet] = useState<TileSet>(CLASSIC_TILE_SET);
+  const [matchLength, setMatchLength] = useState(1);
+  const [freeEmptyPoolGuesses, setFreeEmptyPoolGuesses] = useState(false);
+  const [clockMode, setClockMode] = useState(false);
+  const [bankMinutes, setBankMinutes] = useState(5);
+  const [incrementSeconds, setIncrementSeconds] = useState(5);
+  const [timeoutPolicy, setTimeoutPolicy] = useState(TimeoutPolicy.AUTO_PLAY);
+  const [casual, setCasual] = useState(false);
+  const [takebackLimit, setTakebackLimit] = useState<number | null>(3);
+  const [seedInput, setSeedInput] = useState(() => String(generateSeed()));
+  const [importError, setImportError] = useState<string | null>(null);
+  const [serverUrl, setServerUrl] = useState(getDefaultServerUrl);
+  const [joinCode, setJoinCode] = useState('');
   
   const [playerDetails, setPlayerDetails] = useState<PlayerSetupConfig[]>([]);
 
@@ -25,13 +86,15 @@ const GameSetup: React.FC<GameSetupProps> = ({ onStart }) => {
           newDetails.push({
             ...prev[i],
             isBot: isBot,
+            difficulty: isBot ? prev[i].difficulty ?? DEFAULT_BOT_DIFFICULTY : undefined,
             name: prev[i].name || (isBot ? `Bot ${i + 1 - humanCount}` : `Player ${i + 1}`)
           });
         } else {
           newDetails.push({
             name: isBot ? `Bot ${i + 1 - humanCount}` : `Player ${i + 1}`,
             avatar: AVATARS[i % AVATARS.length],
-            isBot: isBot
+            isBot: isBot,
+            difficulty: isBot ? DEFAULT_BOT_DIFFICULTY : undefined
           });
         }
       }
@@ -49,12 +112,75 @@ const GameSetup: React.FC<GameSetupProps> = ({ onStart }) => {
     setPlayerDetails(prev => {
       const copy = [...prev];
       copy[index] = { ...copy[index], [field]: value };
+      // A seat renamed or given another avatar no longer plays as its profile
+      if (field === 'name' || field === 'avatar') delete copy[index].profileId;
+      return copy;
+    });
+  };
+
+  const selectProfile = (index: number, profileId: string) => {
+    const profile = profiles.find(p => p.id === profileId);
+    setPlayerDetails(prev => {
+      const copy = [...prev];
+      const { profileId: _, ...seat } = copy[index];
+      copy[index] = profile ? { ...seat, name: profile.name, avatar: profile.avatar, profileId: profile.id } : seat;
       return copy;
     });
+    // The first seat's profile brings its preferred settings along
+    if (profile && index === 0) {
+      setTimerSeconds(profile.preferences.timerSeconds);
+      setTileSet(profile.preferences.tileSet);
+    }
   };
 
   const humanCount = playerCount - botCount;
 
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file || !onReplay) return;
+
+    try {
+      setImportError(null);
+      onReplay(await readRecordFile(file));
+    } catch (err) {
+      setImportError((err as Error).message);
+    }
+  };
+
+  // A blank or invalid seed lets the game pick a fresh one
+  const parsedSeed = Number(seedInput);
+  const seed = seedInput.trim() !== '' && Number.isInteger(parsedSeed) && parsedSeed >= 0 && parsedSeed <= MAX_SEED
+    ? parsedSeed
+    : undefined;
+
+  // Tables of five or six play with higher numbers than the chosen set
+  const scaledTileSet = scaleTileSet(tileSet, playerCount);
+  const minNumber = scaleTileSet({ ...tileSet, maxNumber: 1 }, playerCount).maxNumber;
+
+  const isTimed = clockMode || timerSeconds > 0;
+  const config: GameConfig = {
+    playerCount,
+    timerSeconds: clockMode ? 0 : timerSeconds,
+    botCount,
+    playerDetails,
+    tileSet: scaledTileSet,
+    seed,
+    matchLength,
+    freeEmptyPoolGuesses: freeEmptyPoolGuesses || undefined,
+    clock: clockMode ? { bankSeconds: bankMinutes * 60, incrementSeconds } : undefined,
+    timeoutPolicy: isTimed && timeoutPolicy !== TimeoutPolicy.AUTO_PLAY ? timeoutPolicy : undefined,
+    casual: (humanCount > 1 && casual) || undefined,
+    takebackLimit: takebackLimit ?? undefined,
+  };
+  const dealProblem = getDealProblem(config);
+
+  const updateTileSet = (change: Partial<TileSet>) =>
+    setTileSet(prev => {
+      const next = { ...prev, ...change };
+      return { ...next, jokerCount: Math.min(next.jokerCount, next.colors.length) };
+    });
+
   return (
     <div className="min-h-screen flex items-center justify-center p-4">
       <div className="bg-white dark:bg-slate-800 p-6 md:p-8 rounded-2xl shadow-2xl max-w-lg w-full border-4 border-wood-300 dark:border-slate-600 max-h-[90vh] overflow-y-auto scrollbar-hide">
@@ -62,6 +188,22 @@ const GameSetup: React.FC<GameSetupProps> = ({ onStart }) => {
         <p className="text-center text-gray-500 dark:text-gray-400 mb-6 text-sm">Crack the code to win.</p>
 
         <div className="space-y-6">
+          {savedGame && onResume && (
+            <div className="flex items-center gap-3 bg-blue-50 dark:bg-blue-900/30 p-3 rounded-lg border border-blue-200 dark:border-blue-800">
+              <div className="flex-1 text-xs text-gray-600 dark:text-gray-300">
+                <p className="font-bold text-sm text-gray-800 dark:text-white">Game in progress</p>
+                {savedGame.gameState.players.map(p => p.avatar).join(' ')} · Move {savedGame.gameState.moveNumber}
+                <span className="block text-[10px] text-gray-400">Saved {new Date(savedGame.savedAt).toLocaleString()}</span>
+              </div>
+              <button
+                onClick={onResume}
+                className="px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white font-bold rounded-lg shadow text-sm transition-colors"
+              >
+                Resume game
+              </button>
+            </div>
+          )}
+
           <div className="grid grid-cols-2 gap-4">
             <div>
               <label className="block text-xs font-bold uppercase text-gray-500 dark:text-gray-400 mb-1">
@@ -70,7 +212,7 @@ const GameSetup: React.FC<GameSetupProps> = ({ onStart }) => {
               <input
                 type="range"
                 min="2"
-                max="4"
+                max={MAX_PLAYERS}
                 value={playerCount}
                 onChange={(e) => setPlayerCount(Number(e.target.value))}
                 className="w-full h-2 bg-wood-200 rounded-lg appearance-none cursor-pointer dark:bg-slate-600 accent-wood-500"
@@ -97,22 +239,91 @@ const GameSetup: React.FC<GameSetupProps> = ({ onStart }) => {
             </span>
           </div>
 
-          <div className="flex items-center gap-3 bg-wood-50 dark:bg-slate-900/50 p-3 rounded-lg border border-wood-100 dark:border-slate-700">
-              <input 
-                type="checkbox" 
-                id="jokers"
-                checked={includeJokers}
-                onChange={(e) => setIncludeJokers(e.target.checked)}
-                className="w-5 h-5 text-wood-600 rounded focus:ring-wood-500"
-              />
-              <label htmlFor="jokers" className="text-sm font-bold text-gray-700 dark:text-gray-300 cursor-pointer select-none">
-                  Include Jokers (—)
-                  <p className="text-[10px] font-normal text-gray-500">Adds 2 wildcard tiles.</p>
+          <div className="bg-wood-50 dark:bg-slate-900/50 p-3 rounded-lg border border-wood-100 dark:border-slate-700 space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <h3 className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">Tiles</h3>
+              <div className="flex gap-1">
+                {TILE_SET_PRESETS.map(preset => (
+                  <button
+                    key={preset.label}
+                    onClick={() => setTileSet(preset.tileSet)}
+                    className={`px-3 py-1 rounded-full text-[10px] font-bold transition-colors ${
+                      sameTileSet(tileSet, preset.tileSet)
+                        ? 'bg-wood-500 text-white'
+                        : 'bg-wood-100 text-wood-800 dark:bg-slate-700 dark:text-slate-200 hover:bg-wood-200'
+                    }`}
+                  >
+                    {preset.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-2 text-xs text-gray-600 dark:text-gray-300">
+              <label className="flex items-center justify-between gap-1">
+                Highest number
+                <select
+                  value={scaledTileSet.maxNumber}
+                  onChange={(e) => updateTileSet({ maxNumber: Number(e.target.value) })}
+                  className="px-1 py-1 rounded border border-wood-200 dark:border-slate-600 bg-white dark:bg-slate-800 dark:text-white"
+                >
+                  {MAX_NUMBERS.map(n => <option key={n} value={n} disabled={n < minNumber}>{n}</option>)}
+                </select>
               </label>
+              <label className="flex items-center justify-between gap-1">
+                Hand size
+                <select
+                  value={tileSet.handSize ?? 0}
+                  onChange={(e) => updateTileSet({ handSize: Number(e.target.value) || undefined })}
+                  className="px-1 py-1 rounded border border-wood-200 dark:border-slate-600 bg-white dark:bg-slate-800 dark:text-white"
+                >
+                  <option value={0}>Auto</option>
+                  {HAND_SIZES.map(n => <option key={n} value={n}>{n}</option>)}
+                </select>
+              </label>
+              <label className="flex items-center justify-between gap-1">
+                Jokers (—)
+                <select
+                  value={tileSet.jokerCount}
+                  onChange={(e) => updateTileSet({ jokerCount: Number(e.target.value) })}
+                  className="px-1 py-1 rounded border border-wood-200 dark:border-slate-600 bg-white dark:bg-slate-800 dark:text-white"
+                >
+                  {Array.from({ length: tileSet.colors.length + 1 }, (_, n) => <option key={n} value={n}>{n}</option>)}
+                </select>
+              </label>
+              <label className="flex items-center justify-between gap-1">
+                Colors
+                <select
+                  value={COLOR_ORDERS.findIndex(o => o.colors.join() === tileSet.colors.join())}
+                  onChange={(e) => updateTileSet({ colors: COLOR_ORDERS[Number(e.target.value)].colors })}
+                  className="px-1 py-1 rounded border border-wood-200 dark:border-slate-600 bg-white dark:bg-slate-800 dark:text-white"
+                >
+                  {COLOR_ORDERS.map((order, i) => <option key={order.label} value={i}>{order.label}</option>)}
+                </select>
+              </label>
+            </div>
+            <p className={`text-[10px] ${dealProblem ? 'text-red-500' : 'text-gray-500'}`}>
+              {dealProblem ?? `${describeTileSet(scaledTileSet)}.`}
+              {!dealProblem && scaledTileSet !== tileSet && ` Numbers raised for ${playerCount} players.`}
+            </p>
+            <label className="flex items-center gap-2 text-xs dark:text-white">
+              <input
+                type="checkbox"
+                checked={freeEmptyPoolGuesses}
+                onChange={(e) => setFreeEmptyPoolGuesses(e.target.checked)}
+              />
+              House rule: no penalty for a wrong guess once the pool is empty
+            </label>
           </div>
 
           <div className="bg-wood-50 dark:bg-slate-900/50 rounded-xl p-4 space-y-3">
-            <h3 className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">Player Details</h3>
+            <div className="flex justify-between items-center">
+              <h3 className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">Player Details</h3>
+              {onShowProfiles && (
+                <button onClick={onShowProfiles} className="text-[10px] font-bold text-wood-600 dark:text-wood-400 hover:underline">
+                  👤 Profiles & Stats
+                </button>
+              )}
+            </div>
             {playerDetails.map((player, idx) => (
               <div key={idx} className="flex items-center gap-3">
                  <button
@@ -136,10 +347,38 @@ const GameSetup: React.FC<GameSetupProps> = ({ onStart }) => {
                    />
                  </div>
 
+                 {!player.isBot && profiles.length > 0 && (
+                   <select
+                     value={player.profileId ?? ''}
+                     onChange={(e) => selectProfile(idx, e.target.value)}
+                     className="w-24 px-2 py-1 text-xs font-bold rounded-lg border border-wood-200 dark:border-slate-600 bg-white dark:bg-slate-800 dark:text-white focus:ring-2 focus:ring-wood-400 focus:outline-none"
+                     title="Profile"
+                   >
+                     <option value="">Guest</option>
+                     {profiles
+                       .filter(p => p.id === player.profileId || !playerDetails.some(d => d.profileId === p.id))
+                       .map(p => (
+                         <option key={p.id} value={p.id}>{p.avatar} {p.name}</option>
+                       ))}
+                   </select>
+                 )}
+
                  {player.isBot && (
-                   <span className="px-2 py-0.5 bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-200 text-[10px] font-bold rounded">
-                     BOT
-                   </span>
+                   <>
+                     <span className="px-2 py-0.5 bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-200 text-[10px] font-bold rounded">
+                       BOT
+                     </span>
+                     <select
+                       value={player.difficulty ?? DEFAULT_BOT_DIFFICULTY}
+                       onChange={(e) => updatePlayerDetail(idx, 'difficulty', e.target.value as BotDifficulty)}
+                       className="px-2 py-1 text-xs font-bold rounded-lg border border-wood-200 dark:border-slate-600 bg-white dark:bg-slate-800 dark:text-white focus:ring-2 focus:ring-wood-400 focus:outline-none"
+                       title="Bot difficulty"
+                     >
+                       {Object.values(BotDifficulty).map((level) => (
+                         <option key={level} value={level}>{BOT_DIFFICULTY_LABELS[level]}</option>
+                       ))}
+                     </select>
+                   </>
                  )}
               </div>
             ))}
@@ -151,9 +390,9 @@ const GameSetup: React.FC<GameSetupProps> = ({ onStart }) => {
               {[30, 60, 90, 0].map((t) => (
                 <button
                   key={t}
-                  onClick={() => setTimerSeconds(t)}
+                  onClick={() => { setTimerSeconds(t); setClockMode(false); }}
                   className={`flex-1 py-2 rounded-lg text-xs font-bold transition-colors ${
-                    timerSeconds === t
+                    !clockMode && timerSeconds === t
                       ? 'bg-wood-500 text-white'
                       : 'bg-wood-100 text-wood-800 dark:bg-slate-700 dark:text-slate-200 hover:bg-wood-200'
                   }`}
@@ -161,15 +400,187 @@ const GameSetup: React.FC<GameSetupProps> = ({ onStart }) => {
                   {t === 0 ? 'Unlimited' : `${t}s`}
                 </button>
               ))}
+              <button
+                onClick={() => setClockMode(true)}
+                className={`flex-1 py-2 rounded-lg text-xs font-bold transition-colors ${
+                  clockMode
+                    ? 'bg-wood-500 text-white'
+                    : 'bg-wood-100 text-wood-800 dark:bg-slate-700 dark:text-slate-200 hover:bg-wood-200'
+                }`}
+              >
+                Clock
+              </button>
+            </div>
+            {clockMode && (
+              <div className="grid grid-cols-2 gap-x-3 mt-2 text-xs dark:text-white">
+                <label className="flex items-center justify-between gap-1">
+                  Time bank
+                  <select
+                    value={bankMinutes}
+                    onChange={(e) => setBankMinutes(Number(e.target.value))}
+                    className="px-1 py-1 rounded border border-wood-200 dark:border-slate-600 bg-white dark:bg-slate-800 dark:text-white"
+                  >
+                    {CLOCK_BANK_MINUTES.map(m => <option key={m} value={m}>{m} min</option>)}
+                  </select>
+                </label>
+                <label className="flex items-center justify-between gap-1">
+                  Per turn
+                  <select
+                    value={incrementSeconds}
+                    onChange={(e) => setIncrementSeconds(Number(e.target.value))}
+                    className="px-1 py-1 rounded border border-wood-200 dark:border-slate-600 bg-white dark:bg-slate-800 dark:text-white"
+                  >
+                    {CLOCK_INCREMENTS.map(s => <option key={s} value={s}>+{s}s</option>)}
+                  </select>
+                </label>
+              </div>
+            )}
+            {isTimed && (
+              <label className="flex items-center justify-between gap-1 mt-2 text-xs dark:text-white">
+                Out of time
+                <select
+                  value={timeoutPolicy}
+                  onChange={(e) => setTimeoutPolicy(e.target.value as TimeoutPolicy)}
+                  className="px-1 py-1 rounded border border-wood-200 dark:border-slate-600 bg-white dark:bg-slate-800 dark:text-white"
+                >
+                  {Object.values(TimeoutPolicy).map(p => <option key={p} value={p}>{TIMEOUT_POLICY_LABELS[p]}</option>)}
+                </select>
+              </label>
+            )}
+            {clockMode && (
+              <p className="text-[10px] text-gray-500 mt-1">Each seat, bots included, gets one bank for the whole game, topped up after every turn.</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-xs font-bold uppercase text-gray-500 mb-2">Match</label>
+            <div className="flex gap-2 justify-center">
+              {MATCH_LENGTHS.map((n) => (
+                <button
+                  key={n}
+                  onClick={() => setMatchLength(n)}
+                  className={`flex-1 py-2 rounded-lg text-xs font-bold transition-colors ${
+                    matchLength === n
+                      ? 'bg-wood-500 text-white'
+                      : 'bg-wood-100 text-wood-800 dark:bg-slate-700 dark:text-slate-200 hover:bg-wood-200'
+                  }`}
+                >
+                  {n === 1 ? 'Single game' : `Best of ${n}`}
+                </button>
+              ))}
             </div>
+            {matchLength > 1 && (
+              <p className="text-[10px] text-gray-500 mt-1">The first turn moves one seat along each game. Places score points: last gets none, each place above one more.</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-xs font-bold uppercase text-gray-500 mb-2">Takebacks</label>
+            {humanCount > 1 && (
+              <label className="flex items-center gap-2 mb-2 text-xs dark:text-white">
+                <input type="checkbox" checked={casual} onChange={(e) => setCasual(e.target.checked)} />
+                Casual table: players may take back their moves
+              </label>
+            )}
+            {allowsTakebacks(config) ? (
+              <div className="flex gap-2 justify-center">
+                {TAKEBACK_LIMITS.map((n) => (
+                  <button
+                    key={n ?? 'unlimited'}
+                    onClick={() => setTakebackLimit(n)}
+                    className={`flex-1 py-2 rounded-lg text-xs font-bold transition-colors ${
+                      takebackLimit === n
+                        ? 'bg-wood-500 text-white'
+                        : 'bg-wood-100 text-wood-800 dark:bg-slate-700 dark:text-slate-200 hover:bg-wood-200'
+                    }`}
+                  >
+                    {n === null ? 'Unlimited' : n === 0 ? 'Off' : `${n} per player`}
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <p className="text-[10px] text-gray-500">Pass-and-play games are played for real unless the table is casual.</p>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="seed" className="block text-xs font-bold uppercase text-gray-500 mb-2">Seed</label>
+            <div className="flex gap-2">
+              <input
+                id="seed"
+                type="text"
+                inputMode="numeric"
+                value={seedInput}
+                onChange={(e) => setSeedInput(e.target.value.replace(/[^0-9]/g, ''))}
+                className="flex-1 px-3 py-2 text-sm font-mono rounded-lg border border-wood-200 dark:border-slate-600 dark:bg-slate-800 dark:text-white focus:ring-2 focus:ring-wood-400 focus:outline-none"
+                placeholder="Random"
+              />
+              <button
+                onClick={() => setSeedInput(String(generateSeed()))}
+                className="px-3 py-2 rounded-lg bg-wood-100 dark:bg-slate-700 hover:bg-wood-200 transition-colors"
+                title="New seed"
+              >
+                🎲
+              </button>
+            </div>
+            <p className="text-[10px] text-gray-500 mt-1">The same seed deals the same tiles. Share it for a rematch.</p>
           </div>
 
           <button
-            onClick={() => onStart({ playerCount, timerSeconds, botCount, playerDetails, includeJokers })}
-            className="w-full py-4 bg-gradient-to-r from-wood-500 to-wood-600 hover:scale-105 text-white font-bold rounded-xl shadow-lg transition active:scale-95 text-lg"
+            onClick={() => onStart(config)}
+            disabled={!!dealProblem}
+            className="w-full py-4 bg-gradient-to-r from-wood-500 to-wood-600 hover:scale-105 disabled:opacity-50 disabled:hover:scale-100 text-white font-bold rounded-xl shadow-lg transition active:scale-95 text-lg"
           >
             Play Now
           </button>
+
+          {onHostOnline && onJoinOnline && (
+            <div className="bg-wood-50 dark:bg-slate-900/50 rounded-xl p-4 space-y-3">
+              <h3 className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">Play Online</h3>
+              <input
+                type="text"
+                value={serverUrl}
+                onChange={(e) => setServerUrl(e.target.value)}
+                className="w-full px-3 py-1 text-xs font-mono rounded-lg border border-wood-200 dark:border-slate-600 dark:bg-slate-800 dark:text-white focus:ring-2 focus:ring-wood-400 focus:outline-none"
+                placeholder="ws://host:8787"
+                title="Game server"
+              />
+              <button
+                onClick={() => onHostOnline(serverUrl, { ...config, matchLength: undefined })}
+                disabled={!!dealProblem}
+                className="w-full py-2 bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white font-bold rounded-lg shadow text-sm transition-colors"
+              >
+                Host with these settings
+              </button>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={joinCode}
+                  onChange={(e) => setJoinCode(e.target.value.toUpperCase().replace(/[^A-Z]/g, '').slice(0, 4))}
+                  className="flex-1 px-3 py-2 text-sm font-mono tracking-widest uppercase rounded-lg border border-wood-200 dark:border-slate-600 dark:bg-slate-800 dark:text-white focus:ring-2 focus:ring-wood-400 focus:outline-none"
+                  placeholder="CODE"
+                />
+                <button
+                  onClick={() => playerDetails[0] && onJoinOnline(serverUrl, joinCode, playerDetails[0])}
+                  disabled={joinCode.length !== 4}
+                  className="px-4 py-2 bg-wood-500 hover:bg-wood-600 disabled:opacity-50 text-white font-bold rounded-lg shadow text-sm transition-colors"
+                >
+                  Join
+                </button>
+              </div>
+              <p className="text-[10px] text-gray-500">You join as {playerDetails[0]?.avatar} {playerDetails[0]?.name}. Start the server with <code>npm run server</code>.</p>
+            </div>
+          )}
+
+          {onReplay && (
+            <div className="text-center">
+              <label className="text-xs font-bold text-wood-600 dark:text-wood-400 hover:underline cursor-pointer">
+                Open game record…
+                <input type="file" accept={`${RECORD_FILE_EXTENSION},text/plain`} onChange={handleImport} className="hidden" />
+              </label>
+              {importError && <p className="text-[10px] text-red-500 mt-1">{importError}</p>}
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,98 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Tile } from '../types';
+import TileComponent from './TileComponent';
+
+interface JokerPlacerProps {
+  hand: Tile[]; // The player's hand, with or without the Joker in it
+  joker: Tile;
+  onConfirm: (position: number) => void;
+  onCancel: () => void;
+}
+
+// Keys that move the Joker by a slot, or to either end
+const MOVE_KEYS: Record<string, (position: number, last: number) => number> = {
+  ArrowLeft: position => position - 1,
+  ArrowRight: position => position + 1,
+  Home: () => 0,
+  End: (_, last) => last,
+};
+
+// Placement mode for a Joker: pick one of the slots between the other tiles (tap, click or
+// arrow keys), see the hand as it will be, then confirm
+const JokerPlacer: React.FC<JokerPlacerProps> = ({ hand, joker, onConfirm, onCancel }) => {
+  const others = hand.filter(t => t.id !== joker.id);
+  const current = hand.findIndex(t => t.id === joker.id);
+  const [position, setPosition] = useState(current === -1 ? others.length : current);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    containerRef.current?.focus();
+  }, []);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const move = MOVE_KEYS[e.key];
+    if (move) {
+      e.preventDefault();
+      setPosition(Math.max(0, Math.min(others.length, move(position, others.length))));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      onConfirm(position);
+    } else if (e.key === 'Escape') {
+      onCancel();
+    }
+  };
+
+  const slot = (index: number) =>
+    index === position ? (
+      <div key="joker" className="animate-bounce-in">
+        <TileComponent tile={joker} isSelected={true} />
+      </div>
+    ) : (
+      <button
+        key={`slot-${index}`}
+        onClick={() => setPosition(index)}
+        aria-label={`Put the Joker at position ${index + 1}`}
+        className="self-stretch w-6 md:w-8 min-h-[56px] rounded border-2 border-dashed border-yellow-400/60 text-yellow-500 font-bold hover:bg-yellow-400/20 focus:bg-yellow-400/20 focus:outline-none"
+      >
+        +
+      </button>
+    );
+
+  return (
+    <div
+      ref={containerRef}
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+      className="flex flex-col items-center gap-3 w-full focus:outline-none"
+    >
+      <div className="flex flex-wrap items-center gap-1 md:gap-2 justify-center max-w-full px-2 pt-2">
+        {others.map((tile, i) => (
+          <React.Fragment key={tile.id}>
+            {slot(i)}
+            <TileComponent tile={tile} revealDirection="up" showRevBanner={true} />
+          </React.Fragment>
+        ))}
+        {slot(others.length)}
+      </div>
+      <p className="text-[10px] text-gray-500 dark:text-gray-400">
+        Position {position + 1} of {others.length + 1}. Tap a slot or use the arrow keys; Enter to place, Esc to cancel.
+      </p>
+      <div className="flex gap-2">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 text-gray-500 hover:bg-gray-100 dark:hover:bg-slate-700 rounded-lg font-bold text-sm"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onConfirm(position)}
+          className="px-4 py-2 bg-yellow-400 text-black rounded-lg font-bold text-sm hover:bg-yellow-500"
+        >
+          Place Joker
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default JokerPlacer;
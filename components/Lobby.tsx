@@ -0,0 +1,97 @@
+import React from 'react';
+import { RoomInfo } from '../types';
+import { BOT_DIFFICULTY_LABELS, DEFAULT_BOT_DIFFICULTY } from '../constants';
+import { ConnectionStatus } from '../services/multiplayer';
+
+interface LobbyProps {
+  room: RoomInfo | null;
+  playerId: string | null;
+  status: ConnectionStatus;
+  error: string | null;
+  onStart: () => void;
+  onLeave: () => void;
+}
+
+const STATUS_LABELS: Record<ConnectionStatus, string> = {
+  connecting: 'Connecting…',
+  open: 'Connected',
+  reconnecting: 'Reconnecting…',
+  closed: 'Disconnected',
+};
+
+const Lobby: React.FC<LobbyProps> = ({ room, playerId, status, error, onStart, onLeave }) => {
+  const isHost = !!room && room.hostPlayerId === playerId;
+  const isFull = !!room && room.seats.every(s => s.isBot || s.isConnected);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-slate-800 p-6 md:p-8 rounded-2xl shadow-2xl max-w-lg w-full border-4 border-wood-300 dark:border-slate-600">
+        <h1 className="text-3xl font-bold text-center text-wood-700 dark:text-wood-300 mb-1">Online Game</h1>
+        <p className={`text-center text-xs font-bold mb-6 ${status === 'open' ? 'text-green-600' : 'text-gray-400'}`}>
+          {STATUS_LABELS[status]}
+        </p>
+
+        <div className="space-y-6">
+          {room ? (
+            <>
+              <div className="text-center">
+                <p className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">Join Code</p>
+                <p className="text-5xl font-mono font-bold tracking-[0.3em] text-wood-800 dark:text-wood-200">{room.code}</p>
+                <p className="text-[10px] text-gray-500 mt-1">Share it with the other players.</p>
+              </div>
+
+              <div className="bg-wood-50 dark:bg-slate-900/50 rounded-xl p-4 space-y-3">
+                <h3 className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">Seats</h3>
+                {room.seats.map(seat => (
+                  <div key={seat.playerId} className="flex items-center gap-3">
+                    <span className="text-xl w-8 h-8 flex items-center justify-center bg-white dark:bg-slate-700 rounded-full shadow-sm">
+                      {seat.avatar}
+                    </span>
+                    <span className={`flex-1 text-sm font-bold ${seat.isBot || seat.isTaken ? 'text-gray-800 dark:text-white' : 'text-gray-400 italic'}`}>
+                      {seat.isBot || seat.isTaken ? seat.name : 'Open seat'}
+                      {seat.playerId === playerId && <span className="text-wood-500 font-normal"> (you)</span>}
+                    </span>
+                    {seat.isBot ? (
+                      <span className="px-2 py-0.5 bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-200 text-[10px] font-bold rounded">
+                        {BOT_DIFFICULTY_LABELS[seat.difficulty ?? DEFAULT_BOT_DIFFICULTY]}
+                      </span>
+                    ) : (
+                      <span className={`w-2 h-2 rounded-full ${seat.isConnected ? 'bg-green-500' : 'bg-gray-300 dark:bg-slate-600'}`} />
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              {isHost ? (
+                <button
+                  onClick={onStart}
+                  disabled={!isFull}
+                  className="w-full py-4 bg-gradient-to-r from-wood-500 to-wood-600 hover:scale-105 disabled:opacity-50 disabled:hover:scale-100 text-white font-bold rounded-xl shadow-lg transition active:scale-95 text-lg"
+                >
+                  {isFull ? 'Start Game' : 'Waiting for players…'}
+                </button>
+              ) : (
+                <p className="text-center text-sm text-gray-500 dark:text-gray-400">Waiting for the host to start…</p>
+              )}
+            </>
+          ) : (
+            <p className="text-center text-sm text-gray-500 dark:text-gray-400 py-8">
+              {error ? 'Could not join the game.' : 'Joining…'}
+            </p>
+          )}
+
+          {error && <p className="text-center text-xs text-red-500">{error}</p>}
+
+          <button
+            onClick={onLeave}
+            className="w-full py-2 text-sm font-bold text-wood-600 dark:text-wood-400 hover:underline"
+          >
+            Leave
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Lobby;
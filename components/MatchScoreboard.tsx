@@ -0,0 +1,45 @@
+import React from 'react';
+import { MatchState, Player } from '../types';
+import { getPlacePoints, getStandings } from '../game/match';
+
+interface MatchScoreboardProps {
+  match: MatchState;
+  players: Player[];
+}
+
+const MatchScoreboard: React.FC<MatchScoreboardProps> = ({ match, players }) => {
+  const standings = getStandings(match, players.length);
+  const games = Array.from({ length: match.length }, (_, i) => match.results[i]);
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-[10px] uppercase font-bold text-gray-400">
+          <th className="text-left font-bold pb-1">Player</th>
+          {games.map((_, i) => <th key={i} className="w-8 font-bold pb-1">G{i + 1}</th>)}
+          <th className="w-10 font-bold pb-1">Pts</th>
+        </tr>
+      </thead>
+      <tbody>
+        {standings.map(({ playerId, points }) => {
+          const player = players.find(p => p.id === playerId);
+          return (
+            <tr key={playerId} className="border-t border-wood-100 dark:border-slate-700">
+              <td className="text-left py-1 whitespace-nowrap dark:text-white">
+                {player?.avatar} {player?.name}
+              </td>
+              {games.map((order, i) => (
+                <td key={i} className="text-center text-gray-500 dark:text-gray-400">
+                  {order ? getPlacePoints(order.indexOf(playerId), players.length) : '·'}
+                </td>
+              ))}
+              <td className="text-center font-bold text-wood-700 dark:text-wood-300">{points}</td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+};
+
+export default MatchScoreboard;
@@ -0,0 +1,73 @@
+import React from 'react';
+import { TileNote, TileSet } from '../types';
+import { JOKER_VALUE, getTileValues } from '../constants';
+
+interface NotesEditorProps {
+  title: string;
+  note: TileNote;
+  tileSet: TileSet;
+  onChange: (note: TileNote) => void;
+  onClose: () => void;
+}
+
+// Tapping a value cycles it: unmarked, marked as possible, crossed out
+const cycleValue = (note: TileNote, value: number): TileNote => {
+  if (note.marked.includes(value)) {
+    return { marked: note.marked.filter(v => v !== value), crossed: [...note.crossed, value] };
+  }
+  if (note.crossed.includes(value)) {
+    return { ...note, crossed: note.crossed.filter(v => v !== value) };
+  }
+  return { ...note, marked: [...note.marked, value] };
+};
+
+const NotesEditor: React.FC<NotesEditorProps> = ({ title, note, tileSet, onChange, onClose }) => {
+  const values = getTileValues(tileSet);
+
+  const valueClasses = (value: number) => {
+    if (note.marked.includes(value)) return 'bg-green-500 text-white border-green-600';
+    if (note.crossed.includes(value)) return 'bg-gray-100 dark:bg-slate-900 text-gray-400 line-through border-red-300';
+    return 'bg-wood-100 dark:bg-slate-700 text-wood-900 dark:text-white border-transparent';
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl max-w-sm w-full p-6 animate-bounce-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className="text-xl font-bold text-center mb-1 dark:text-white">{title}</h3>
+        <p className="text-center text-[10px] text-gray-500 dark:text-gray-400 mb-4">
+          Tap a value to mark it possible, again to cross it out, again to clear it. Only you can see these.
+        </p>
+        <div className="grid grid-cols-4 gap-3 mb-6">
+          {values.map(value => (
+            <button
+              key={value}
+              onClick={() => onChange(cycleValue(note, value))}
+              className={`aspect-square rounded-xl border-2 text-xl font-bold transition-colors ${valueClasses(value)}`}
+            >
+              {value === JOKER_VALUE ? '—' : value}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => onChange({ marked: [], crossed: [] })}
+            className="flex-1 py-3 text-gray-500 hover:bg-gray-100 dark:hover:bg-slate-700 rounded-lg text-sm"
+          >
+            Clear
+          </button>
+          <button
+            onClick={onClose}
+            className="flex-1 py-3 bg-wood-500 hover:bg-wood-600 text-white font-bold rounded-lg text-sm"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NotesEditor;
@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { PlayerProfile, BotDifficulty } from '../types';
+import { AVATARS, BOT_DIFFICULTY_LABELS, TILE_SET_PRESETS, describeTileSet, sameTileSet } from '../constants';
+import { createProfile, downloadStatsCsv, getAccuracy, getAverageTurns } from '../services/profiles';
+
+interface ProfilesScreenProps {
+  profiles: PlayerProfile[];
+  onChange: (profiles: PlayerProfile[]) => void;
+  onClose: () => void;
+}
+
+const TIMER_OPTIONS = [30, 60, 90, 0];
+
+const nextAvatar = (avatar: string) => AVATARS[(AVATARS.indexOf(avatar) + 1) % AVATARS.length];
+
+const ProfilesScreen: React.FC<ProfilesScreenProps> = ({ profiles, onChange, onClose }) => {
+  const [newName, setNewName] = useState('');
+  const [newAvatar, setNewAvatar] = useState(AVATARS[0]);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  const update = (id: string, change: Partial<PlayerProfile>) =>
+    onChange(profiles.map(p => (p.id === id ? { ...p, ...change } : p)));
+
+  const addProfile = () => {
+    if (!newName.trim()) return;
+    onChange([...profiles, createProfile(newName.trim(), newAvatar)]);
+    setNewName('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-[130] flex flex-col bg-wood-100 dark:bg-slate-900">
+      <header className="bg-wood-500 dark:bg-slate-800 text-white p-3 shadow-md flex justify-between items-center">
+        <h1 className="font-bold text-lg md:text-xl tracking-tight">Profiles & Stats</h1>
+        <div className="flex gap-2">
+          {profiles.length > 0 && (
+            <button
+              onClick={() => downloadStatsCsv(profiles)}
+              className="p-2 bg-white/10 rounded-full hover:bg-white/20 text-xs md:text-sm font-bold px-3 transition-colors"
+            >
+              ⬇ CSV
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="p-2 bg-white/10 rounded-full hover:bg-white/20 text-xs md:text-sm font-bold px-3 transition-colors"
+          >
+            ✕ Close
+          </button>
+        </div>
+      </header>
+
+      <div className="flex-1 overflow-y-auto p-4 md:p-8 space-y-4 max-w-3xl w-full mx-auto">
+        <div className="flex items-center gap-3 bg-white/50 dark:bg-slate-800/50 p-4 rounded-xl border-2 border-dashed border-wood-300 dark:border-slate-600">
+          <button
+            onClick={() => setNewAvatar(nextAvatar(newAvatar))}
+            className="text-xl w-8 h-8 flex items-center justify-center bg-white dark:bg-slate-700 rounded-full shadow-sm hover:scale-110 transition-transform"
+          >
+            {newAvatar}
+          </button>
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value.slice(0, 24))}
+            onKeyDown={(e) => e.key === 'Enter' && addProfile()}
+            className="flex-1 px-3 py-1 text-sm rounded-lg border border-wood-200 dark:border-slate-600 dark:bg-slate-800 dark:text-white focus:ring-2 focus:ring-wood-400 focus:outline-none"
+            placeholder="New player name"
+          />
+          <button
+            onClick={addProfile}
+            disabled={!newName.trim()}
+            className="px-4 py-1 bg-wood-500 hover:bg-wood-600 disabled:opacity-50 text-white font-bold rounded-lg text-sm"
+          >
+            Add
+          </button>
+        </div>
+
+        {profiles.length === 0 && (
+          <p className="text-center text-sm text-gray-500 dark:text-gray-400 py-8">
+            No profiles yet. Add one, then pick it for a seat to start counting stats.
+          </p>
+        )}
+
+        {profiles.map(profile => {
+          const { stats } = profile;
+          const bots = Object.values(BotDifficulty).filter(level => stats.vsBots[level]);
+          return (
+            <div key={profile.id} className="bg-white/50 dark:bg-slate-800/50 p-4 rounded-xl border-2 border-wood-300 dark:border-slate-600 space-y-3">
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={() => update(profile.id, { avatar: nextAvatar(profile.avatar) })}
+                  className="text-2xl w-10 h-10 flex items-center justify-center bg-white dark:bg-slate-700 rounded-full shadow-sm hover:scale-110 transition-transform"
+                >
+                  {profile.avatar}
+                </button>
+                <input
+                  type="text"
+                  value={profile.name}
+                  onChange={(e) => update(profile.id, { name: e.target.value.slice(0, 24) })}
+                  className="flex-1 px-3 py-1 text-sm font-bold rounded-lg border border-wood-200 dark:border-slate-600 dark:bg-slate-800 dark:text-white focus:ring-2 focus:ring-wood-400 focus:outline-none"
+                />
+                <button
+                  onClick={() => {
+                    if (confirmDeleteId !== profile.id) return setConfirmDeleteId(profile.id);
+                    onChange(profiles.filter(p => p.id !== profile.id));
+                    setConfirmDeleteId(null);
+                  }}
+                  className="px-3 py-1 text-xs font-bold rounded-lg text-red-600 hover:bg-red-50 dark:hover:bg-red-900/30"
+                >
+                  {confirmDeleteId === profile.id ? 'Really delete?' : 'Delete'}
+                </button>
+              </div>
+
+              <div className="flex items-center gap-4 text-xs text-gray-600 dark:text-gray-300">
+                <label className="flex items-center gap-1">
+                  Timer
+                  <select
+                    value={profile.preferences.timerSeconds}
+                    onChange={(e) => update(profile.id, { preferences: { ...profile.preferences, timerSeconds: Number(e.target.value) } })}
+                    className="px-1 py-0.5 rounded border border-wood-200 dark:border-slate-600 bg-white dark:bg-slate-800 dark:text-white"
+                  >
+                    {TIMER_OPTIONS.map(t => <option key={t} value={t}>{t === 0 ? 'Unlimited' : `${t}s`}</option>)}
+                  </select>
+                </label>
+                <label className="flex items-center gap-1" title={describeTileSet(profile.preferences.tileSet)}>
+                  Tiles
+                  <select
+                    value={TILE_SET_PRESETS.findIndex(preset => sameTileSet(preset.tileSet, profile.preferences.tileSet))}
+                    onChange={(e) => update(profile.id, { preferences: { ...profile.preferences, tileSet: TILE_SET_PRESETS[Number(e.target.value)].tileSet } })}
+                    className="px-1 py-0.5 rounded border border-wood-200 dark:border-slate-600 bg-white dark:bg-slate-800 dark:text-white"
+                  >
+                    {!TILE_SET_PRESETS.some(preset => sameTileSet(preset.tileSet, profile.preferences.tileSet)) && (
+                      <option value={-1}>Custom</option>
+                    )}
+                    {TILE_SET_PRESETS.map((preset, i) => <option key={preset.label} value={i}>{preset.label}</option>)}
+                  </select>
+                </label>
+              </div>
+
+              <div className="grid grid-cols-3 sm:grid-cols-5 gap-2 text-center">
+                {[
+                  { label: 'Games', value: stats.gamesPlayed },
+                  { label: 'W - L', value: `${stats.wins} - ${stats.losses}` },
+                  { label: 'Accuracy', value: `${Math.round(getAccuracy(stats) * 100)}%` },
+                  { label: 'Eliminations', value: stats.eliminationsCaused },
+                  { label: 'Avg turns', value: getAverageTurns(stats).toFixed(1) },
+                ].map(({ label, value }) => (
+                  <div key={label} className="bg-wood-50 dark:bg-slate-900/50 rounded-lg p-2">
+                    <p className="text-lg font-bold text-wood-800 dark:text-wood-200">{value}</p>
+                    <p className="text-[10px] uppercase font-bold text-gray-400">{label}</p>
+                  </div>
+                ))}
+              </div>
+
+              {bots.length > 0 && (
+                <div className="flex flex-wrap gap-2 text-[10px]">
+                  {bots.map(level => (
+                    <span key={level} className="px-2 py-0.5 bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-200 font-bold rounded">
+                      vs {BOT_DIFFICULTY_LABELS[level]}: {stats.vsBots[level]!.wins} - {stats.vsBots[level]!.losses}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ProfilesScreen;
@@ -0,0 +1,113 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { GameRecord, GamePhase } from '../types';
+import { formatMove, replayRecord } from '../game/record';
+import TileComponent from './TileComponent';
+
+interface ReplayViewerProps {
+  record: GameRecord;
+  onClose: () => void;
+}
+
+const ReplayViewer: React.FC<ReplayViewerProps> = ({ record, onClose }) => {
+  const states = useMemo(() => replayRecord(record), [record]);
+  const [step, setStep] = useState(0);
+  const lastStep = states.length - 1;
+
+  const goTo = (target: number) => setStep(Math.max(0, Math.min(lastStep, target)));
+
+  // Arrow keys step through the game
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowRight') setStep(s => Math.min(lastStep, s + 1));
+      if (e.key === 'ArrowLeft') setStep(s => Math.max(0, s - 1));
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [lastStep, onClose]);
+
+  const state = states[step];
+  const moveText = step === 0 ? 'Deal' : formatMove(states[step - 1], record.actions[step - 1], state);
+
+  return (
+    <div className="fixed inset-0 z-[130] flex flex-col bg-wood-100 dark:bg-slate-900">
+      <header className="bg-wood-500 dark:bg-slate-800 text-white p-3 shadow-md flex justify-between items-center">
+        <div className="flex items-center gap-2">
+          <h1 className="font-bold text-lg md:text-xl tracking-tight">Replay</h1>
+          <div className="bg-black/20 px-3 py-1 rounded-full text-xs md:text-sm font-mono">
+            Step {step} / {lastStep}
+          </div>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 bg-white/10 rounded-full hover:bg-white/20 text-xs md:text-sm font-bold px-3 transition-colors"
+        >
+          ✕ Close
+        </button>
+      </header>
+
+      <div className="flex-1 overflow-y-auto p-4 md:p-8 space-y-4">
+        {state.players.map(player => {
+          const isCurrent = player.id === state.currentTurnPlayerId && state.phase !== GamePhase.GAME_OVER;
+          return (
+            <div
+              key={player.id}
+              className={`bg-white/50 dark:bg-slate-800/50 p-4 rounded-xl border-2 ${
+                player.isEliminated ? 'opacity-50 border-red-400' : isCurrent ? 'border-blue-400' : 'border-wood-300 dark:border-slate-600'
+              }`}
+            >
+              <div className="flex items-center gap-2 mb-3">
+                <span className="text-xl md:text-2xl">{player.avatar}</span>
+                <span className="font-bold text-wood-900 dark:text-wood-100 text-sm md:text-base">{player.name}</span>
+                {player.id === state.winnerId && <span className="text-green-600 font-bold text-[10px] uppercase ml-auto">Winner</span>}
+                {player.isEliminated && <span className="text-red-600 font-bold text-[10px] uppercase ml-auto">Out</span>}
+              </div>
+              <div className="flex flex-wrap gap-2 md:gap-3 items-end pt-4">
+                {player.hand.map(tile => (
+                  <TileComponent key={tile.id} tile={tile} revealDirection="up" showRevBanner={true} />
+                ))}
+                {isCurrent && state.drawnTile && (
+                  <div className="flex flex-col items-center gap-1 border-l-2 pl-3 border-dashed border-gray-300 dark:border-slate-600">
+                    <span className="text-[10px] uppercase font-bold text-blue-500">Drawn</span>
+                    <TileComponent tile={state.drawnTile} isNew={true} />
+                  </div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="bg-white dark:bg-slate-800 p-4 rounded-t-3xl shadow-[0_-4px_20px_rgba(0,0,0,0.1)] border-t border-wood-200 dark:border-slate-700">
+        <p className="text-center font-mono text-sm text-gray-700 dark:text-gray-200 mb-3">{moveText}</p>
+        <div className="flex gap-2 justify-center">
+          {[
+            { label: '⏮', target: 0, title: 'Start' },
+            { label: '◀', target: step - 1, title: 'Back' },
+            { label: '▶', target: step + 1, title: 'Forward' },
+            { label: '⏭', target: lastStep, title: 'End' },
+          ].map(({ label, target, title }) => (
+            <button
+              key={title}
+              onClick={() => goTo(target)}
+              title={title}
+              className="flex-1 max-w-[80px] py-2 rounded-lg text-lg font-bold bg-wood-100 text-wood-800 dark:bg-slate-700 dark:text-slate-200 hover:bg-wood-200 transition-colors"
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <input
+          type="range"
+          min="0"
+          max={lastStep}
+          value={step}
+          onChange={(e) => goTo(Number(e.target.value))}
+          className="w-full mt-3 h-2 bg-wood-200 rounded-lg appearance-none cursor-pointer dark:bg-slate-600 accent-wood-500"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ReplayViewer;
@@ -1,5 +1,5 @@
 import React from 'react';
-import { Tile, TileColor } from '../types';
+import { Tile, TileColor, TileCandidates, TileNote, AssistMode } from '../types';
 import { JOKER_VALUE } from '../constants';
 
 interface TileComponentProps {
@@ -11,13 +11,37 @@ interface TileComponentProps {
   isNew?: boolean; // Highlight for newly drawn
   revealDirection?: 'up' | 'down'; // Controls visual pop direction for revealed cards
   showRevBanner?: boolean; // Controls visibility of the "REV" ribbon
-  
-  // Drag and Drop
-  draggable?: boolean;
-  onDragStart?: (e: React.DragEvent) => void;
-  onDrop?: (e: React.DragEvent) => void;
+  isPlaceable?: boolean; // Own Joker that can still be placed; tapping it starts placement
+
+  // Assist overlay on a hidden tile
+  hint?: TileCandidates['candidates'];
+  hintMode?: AssistMode;
+
+  // The viewer's own notes on a hidden tile
+  note?: TileNote;
+
+  compact?: boolean; // Smaller tile for crowded tables
 }
 
+// "0-3 7 —": runs of consecutive values collapsed, Joker last
+const formatValues = (values: number[]): string => {
+  const numbers = values.filter(v => v !== JOKER_VALUE).sort((a, b) => a - b);
+  const parts: string[] = [];
+  for (let i = 0; i < numbers.length; i++) {
+    const start = numbers[i];
+    while (numbers[i + 1] === numbers[i] + 1) i++;
+    parts.push(numbers[i] - start >= 2 ? `${start}-${numbers[i]}` : numbers[i] === start ? `${start}` : `${start} ${numbers[i]}`);
+  }
+  if (values.includes(JOKER_VALUE)) parts.push('—');
+  return parts.join(' ');
+};
+
+const COLOR_CLASSES: Record<TileColor, string> = {
+  [TileColor.BLACK]: 'bg-slate-800 border-slate-600 text-white',
+  [TileColor.WHITE]: 'bg-slate-100 border-slate-300 text-slate-900',
+  [TileColor.RED]: 'bg-red-700 border-red-500 text-white',
+};
+
 const TileComponent: React.FC<TileComponentProps> = ({
   tile,
   isHidden = false,
@@ -27,9 +51,11 @@ const TileComponent: React.FC<TileComponentProps> = ({
   isNew = false,
   revealDirection,
   showRevBanner = false,
-  draggable = false,
-  onDragStart,
-  onDrop,
+  isPlaceable = false,
+  hint,
+  hintMode = AssistMode.OFF,
+  note,
+  compact = false,
 }) => {
   // Determine if we show the number or the back
   const showFace = tile.isRevealed || !isHidden;
@@ -46,37 +72,36 @@ const TileComponent: React.FC<TileComponentProps> = ({
   }
 
   const baseClasses = `
-    relative flex items-center justify-center w-10 h-14 md:w-14 md:h-20 rounded shadow-md border-2 transition-all duration-300 transform select-none
-    ${isInteractable ? 'cursor-pointer hover:-translate-y-2 hover:shadow-xl' : ''}
-    ${draggable ? 'cursor-grab active:cursor-grabbing hover:scale-105' : ''}
-    ${!isInteractable && !draggable ? 'cursor-default' : ''}
+    relative flex items-center justify-center ${compact ? 'w-8 h-11 md:w-12 md:h-16' : 'w-10 h-14 md:w-14 md:h-20'} rounded shadow-md border-2 transition-all duration-300 transform select-none
+    ${isInteractable ? 'cursor-pointer hover:-translate-y-2 hover:shadow-xl focus:outline-none focus:ring-4 focus:ring-blue-300' : 'cursor-default'}
     ${isSelected ? 'ring-4 ring-yellow-400 -translate-y-2 scale-105 z-10' : ''}
     ${isNew ? 'ring-2 ring-blue-400' : ''}
     ${transformClasses}
   `;
 
-  const colorClasses =
-    tile.color === TileColor.BLACK
-      ? 'bg-slate-800 border-slate-600 text-white'
-      : 'bg-slate-100 border-slate-300 text-slate-900';
+  const colorClasses = COLOR_CLASSES[tile.color];
+
+  // Heat map shading is relative to the likeliest value
+  const maxProbability = hint ? Math.max(...hint.map(c => c.probability)) : 1;
 
-  const handleDragOver = (e: React.DragEvent) => {
-    if (onDrop) {
-      e.preventDefault(); // Allow drop
+  // Interactable tiles can be reached with Tab and picked with Enter or Space
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      onClick?.();
     }
   };
 
   return (
     <div
       onClick={isInteractable ? onClick : undefined}
+      onKeyDown={isInteractable ? handleKeyDown : undefined}
+      role={isInteractable ? 'button' : undefined}
+      tabIndex={isInteractable ? 0 : undefined}
       className={`${baseClasses} ${colorClasses}`}
-      draggable={draggable}
-      onDragStart={onDragStart}
-      onDrop={onDrop}
-      onDragOver={handleDragOver}
     >
       {showFace ? (
-        <span className="text-2xl md:text-4xl font-bold font-mono">
+        <span className={`${compact ? 'text-lg md:text-3xl' : 'text-2xl md:text-4xl'} font-bold font-mono`}>
           {isJoker ? '—' : tile.value}
         </span>
       ) : (
@@ -86,6 +111,36 @@ const TileComponent: React.FC<TileComponentProps> = ({
         </div>
       )}
       
+      {/* Assist overlay: what this hidden tile can still be */}
+      {!showFace && hint && hint.length > 0 && hintMode === AssistMode.VALUES && (
+        <div className="absolute inset-0.5 flex items-center justify-center text-center text-[8px] md:text-[10px] leading-tight font-mono font-bold text-amber-400">
+          {formatValues(hint.map(c => c.value))}
+        </div>
+      )}
+      {!showFace && hint && hint.length > 0 && hintMode === AssistMode.HEATMAP && (
+        <div className="absolute inset-0.5 flex flex-wrap content-center justify-center gap-px">
+          {[...hint].sort((a, b) => a.value - b.value).map(({ value, probability }) => (
+            <span
+              key={value}
+              className="min-w-[10px] md:min-w-[14px] text-center text-[7px] md:text-[9px] font-mono font-bold rounded-sm text-white"
+              style={{ backgroundColor: `rgba(245, 158, 11, ${0.15 + 0.85 * (probability / maxProbability)})` }}
+              title={`${Math.round(probability * 100)}%`}
+            >
+              {value === JOKER_VALUE ? '—' : value}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* Notebook marks: possible values in green, ruled-out ones struck through */}
+      {!showFace && note && (note.marked.length > 0 || note.crossed.length > 0) && (
+        <div className="absolute -bottom-3 left-1/2 -translate-x-1/2 max-w-[140%] truncate bg-white dark:bg-slate-900 border border-wood-200 dark:border-slate-600 rounded px-1 text-[8px] md:text-[10px] font-mono font-bold shadow z-20">
+          {note.marked.length > 0 && <span className="text-green-600">{formatValues(note.marked)}</span>}
+          {note.marked.length > 0 && note.crossed.length > 0 && ' '}
+          {note.crossed.length > 0 && <span className="text-red-400 line-through">{formatValues(note.crossed)}</span>}
+        </div>
+      )}
+
       {/* Indicator for revealed tiles - Show only if showRevBanner is true */}
       {tile.isRevealed && showRevBanner && (
         <div className="absolute -top-3 -right-2 bg-red-600 text-white text-[10px] font-bold px-1.5 py-0.5 rounded-full shadow-lg z-20 border border-white dark:border-slate-800 animate-bounce-slow">
@@ -100,10 +155,10 @@ const TileComponent: React.FC<TileComponentProps> = ({
        </div>
       )}
 
-      {/* Indicator for Own Joker that can be moved (only if visible to owner and not revealed) */}
-      {isJoker && !isHidden && !tile.isRevealed && draggable && (
+      {/* Indicator for Own Joker that can still be placed (only if visible to owner and not revealed) */}
+      {isJoker && !isHidden && !tile.isRevealed && isPlaceable && (
         <div className="absolute -top-2 -left-2 bg-yellow-400 text-black text-[10px] px-1 rounded-full shadow font-bold animate-pulse z-20">
-          DRAG
+          MOVE
         </div>
       )}
     </div>
@@ -1,41 +1,108 @@
-import { TileColor, Tile } from './types';
+import { TileColor, Tile, TileSet, BotDifficulty, AssistMode, TimeoutPolicy } from './types';
 
-export const TOTAL_NUMBERS = 12; // 0-11
 export const JOKER_VALUE = -1;
+export const HIDDEN_VALUE = -2; // Stands in for a value the viewer may not see
 export const DEFAULT_TIMER = 60;
+export const MAX_PLAYERS = 6;
+export const MAX_TILE_NUMBER = 15;
+export const DEFAULT_BOT_DIFFICULTY = BotDifficulty.CASUAL;
 
-// Factory for tiles
-export const createInitialTiles = (includeJokers: boolean): Tile[] => {
+export const BOT_DIFFICULTY_LABELS: Record<BotDifficulty, string> = {
+  [BotDifficulty.RANDOM]: 'Random',
+  [BotDifficulty.CASUAL]: 'Casual',
+  [BotDifficulty.EXPERT]: 'Expert',
+  [BotDifficulty.GEMINI]: 'Gemini',
+};
+
+export const ASSIST_MODE_LABELS: Record<AssistMode, string> = {
+  [AssistMode.OFF]: 'Hints off',
+  [AssistMode.VALUES]: 'Possible values',
+  [AssistMode.HEATMAP]: 'Likelihood',
+};
+
+export const TIMEOUT_POLICY_LABELS: Record<TimeoutPolicy, string> = {
+  [TimeoutPolicy.AUTO_PLAY]: 'Auto-draw and reveal',
+  [TimeoutPolicy.LOSE_TURN]: 'Lose the turn',
+  [TimeoutPolicy.ELIMINATE]: 'Eliminated',
+};
+
+export const CLASSIC_TILE_SET: TileSet = {
+  maxNumber: 11,
+  colors: [TileColor.BLACK, TileColor.WHITE],
+  jokerCount: 0,
+};
+
+export const TILE_SET_PRESETS: { label: string; tileSet: TileSet }[] = [
+  { label: 'Classic', tileSet: CLASSIC_TILE_SET },
+  { label: 'Mini', tileSet: { maxNumber: 5, colors: [TileColor.BLACK, TileColor.WHITE], jokerCount: 0, handSize: 3 } },
+  { label: 'Hard', tileSet: { maxNumber: 11, colors: [TileColor.BLACK, TileColor.RED, TileColor.WHITE], jokerCount: 3, handSize: 5 } },
+];
+
+// Letters used for colors in records and prompts: B7, W11, R3
+export const COLOR_LETTERS: Record<TileColor, string> = {
+  [TileColor.BLACK]: 'B',
+  [TileColor.WHITE]: 'W',
+  [TileColor.RED]: 'R',
+};
+
+export const COLOR_NAMES: Record<TileColor, string> = {
+  [TileColor.BLACK]: 'black',
+  [TileColor.WHITE]: 'white',
+  [TileColor.RED]: 'red',
+};
+
+export const getDeckSize = (tileSet: TileSet) => (tileSet.maxNumber + 1) * tileSet.colors.length + tileSet.jokerCount;
+
+export const hasJokers = (tileSet: TileSet) => tileSet.jokerCount > 0;
+
+// Every value a tile can have: its numbers, and JOKER_VALUE when the set has Jokers
+export const getTileValues = (tileSet: TileSet): number[] => {
+  const values = Array.from({ length: tileSet.maxNumber + 1 }, (_, i) => i);
+  if (hasJokers(tileSet)) values.push(JOKER_VALUE);
+  return values;
+};
+
+// For rules text and prompts, e.g. "24 tiles: 0-11 in black and white"
+export const describeTileSet = (tileSet: TileSet) => {
+  const names = tileSet.colors.map(c => COLOR_NAMES[c]);
+  const colors = names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names.join('');
+  const jokers = tileSet.jokerCount ? `, plus ${tileSet.jokerCount} Joker${tileSet.jokerCount > 1 ? 's' : ''}` : '';
+  return `${getDeckSize(tileSet)} tiles: 0-${tileSet.maxNumber} in ${colors}${jokers}`;
+};
+
+// Whether two tile sets make the same box and deal, e.g. to spot a preset
+export const sameTileSet = (a: TileSet, b: TileSet) =>
+  a.maxNumber === b.maxNumber && a.jokerCount === b.jokerCount && a.handSize === b.handSize && a.colors.join() === b.colors.join();
+
+// Gap between equal numbers of neighbouring colors in the hand order. Kept small so Jokers
+// placed before colors were configurable (between whole numbers) still land in the same spot.
+const COLOR_STEP = 0.01;
+
+// Factory for tiles. A tile's color rank is folded into its sort value, so with the
+// classic colors B3 sorts before W3 and a third color takes its own slot.
+export const createInitialTiles = (tileSet: TileSet): Tile[] => {
   const tiles: Tile[] = [];
+  const { colors } = tileSet;
 
-  // 0-11 Black and White
-  for (let i = 0; i < TOTAL_NUMBERS; i++) {
-    tiles.push({
-      id: `b-${i}`,
-      color: TileColor.BLACK,
-      value: i,
-      sortValue: i,
-      isRevealed: false,
-      ownerId: null,
-      isJoker: false,
-      isPlaced: false,
-    });
-    tiles.push({
-      id: `w-${i}`,
-      color: TileColor.WHITE,
-      value: i,
-      sortValue: i,
-      isRevealed: false,
-      ownerId: null,
-      isJoker: false,
-      isPlaced: false,
+  for (let i = 0; i <= tileSet.maxNumber; i++) {
+    colors.forEach((color, rank) => {
+      tiles.push({
+        id: `${COLOR_LETTERS[color].toLowerCase()}-${i}`,
+        color,
+        value: i,
+        sortValue: i + rank * COLOR_STEP,
+        isRevealed: false,
+        ownerId: null,
+        isJoker: false,
+        isPlaced: false,
+      });
     });
   }
 
-  if (includeJokers) {
+  colors.slice(0, tileSet.jokerCount).forEach(color => {
     tiles.push({
-      id: `b-joker`,
-      color: TileColor.BLACK,
+      id: `${COLOR_LETTERS[color].toLowerCase()}-joker`,
+      color,
       value: JOKER_VALUE,
       sortValue: 100, // Default to end
       isRevealed: false,
@@ -43,36 +110,21 @@ export const createInitialTiles = (includeJokers: boolean): Tile[] => {
       isJoker: true,
       isPlaced: false,
     });
-    tiles.push({
-      id: `w-joker`,
-      color: TileColor.WHITE,
-      value: JOKER_VALUE,
-      sortValue: 100, // Default to end
-      isRevealed: false,
-      ownerId: null,
-      isJoker: true,
-      isPlaced: false,
-    });
-  }
+  });
 
   return tiles;
 };
 
-// Helper to sort hand: sortValue asc, then Black < White
-export const sortHand = (tiles: Tile[]): Tile[] => {
+// Helper to sort hand: sortValue asc, then by the tile set's color order
+export const sortHand = (tiles: Tile[], colorOrder: TileColor[]): Tile[] => {
   return [...tiles].sort((a, b) => {
     // If sortValues are significantly different, sort by them
     if (Math.abs(a.sortValue - b.sortValue) > 0.001) {
       return a.sortValue - b.sortValue;
     }
     
-    // If sortValues are essentially same (e.g. both Jokers at end, or Joker placed exactly at a number's slot),
-    // Standard rule: Black < White
-    if (a.color !== b.color) {
-      return a.color === TileColor.BLACK ? -1 : 1;
-    }
-    
-    return 0;
+    // If sortValues are essentially same (e.g. both Jokers at end, or Joker placed exactly at a number's slot)
+    return colorOrder.indexOf(a.color) - colorOrder.indexOf(b.color);
   });
 };
 
@@ -80,4 +132,4 @@ export const AVATARS = [
   '🐶', '🐱', '🦊', '🐻', '🐼', '🐨', '🐯', '🦁'
 ];
 // Needed for backward compatibility if imported directly, though we use createInitialTiles now
-export const INITIAL_TILES = createInitialTiles(false);
\ No newline at end of file
+export const INITIAL_TILES = createInitialTiles(CLASSIC_TILE_SET);
\ No newline at end of file
@@ -0,0 +1,143 @@
+import { ActionType, GameEventType, GamePhase, GameRecord, GameState, TileSet } from '../types';
+import { getHandCandidates } from './deduction';
+import { replayRecord } from './record';
+import { getPlayerView } from './view';
+
+// Post-game review of a finished game, move by move. Every judgement is made from the acting
+// player's own view at that moment, the same public deduction the hints use, so a guess
+// is only called provably wrong when that player could have known.
+
+export interface GuessReview {
+  step: number; // Index of the action in the record
+  moveNumber: number;
+  playerId: string;
+  targetId: string;
+  tileId: string;
+  value: number;
+  isCorrect: boolean;
+  possibleValues: number; // Values the tile could still have had, as the guesser saw it
+  chance: number; // Likelihood of the guessed value; 0 when provably wrong
+}
+
+// A tile the player had fully worked out on their turn but did not guess that turn
+export interface MissedTile {
+  moveNumber: number;
+  playerId: string;
+  targetId: string;
+  tileId: string;
+  value: number;
+}
+
+export enum DecisionRating {
+  SAFE = 'SAFE', // Nothing to lose, or stopped with something at stake
+  FAIR = 'FAIR', // Went on with the odds in favour
+  RISKY = 'RISKY', // Went on with the odds against
+  TOO_CAUTIOUS = 'TOO_CAUTIOUS', // Stopped with a sure or free guess left
+}
+
+// What a wrong next guess would cost
+export type GuessStake = 'DRAWN_TILE' | 'OWN_TILE' | 'NOTHING';
+
+// A "continue or finish" choice after a correct guess
+export interface ResolveReview {
+  step: number;
+  moveNumber: number;
+  playerId: string;
+  continued: boolean;
+  bestChance: number; // Likelihood of the player's best next guess
+  stake: GuessStake;
+  risk: number; // Chance that going on would have cost a tile
+  rating: DecisionRating;
+}
+
+export interface GameAnalysis {
+  guesses: GuessReview[];
+  missedTiles: MissedTile[];
+  decisions: ResolveReview[];
+}
+
+interface Determined {
+  targetId: string;
+  value: number;
+}
+
+// Every hidden opponent tile as `playerId` sees it, with its candidate values
+const getOpponentCandidates = (state: GameState, playerId: string, tileSet: TileSet) => {
+  const view = getPlayerView(state, playerId);
+  return view.players
+    .filter(p => p.id !== playerId && !p.isEliminated)
+    .flatMap(p => getHandCandidates(view, playerId, p.id, tileSet).map(c => ({ ...c, targetId: p.id })));
+};
+
+const rateDecision = (continued: boolean, risk: number): DecisionRating => {
+  if (!continued) return risk === 0 ? DecisionRating.TOO_CAUTIOUS : DecisionRating.SAFE;
+  if (risk === 0) return DecisionRating.SAFE;
+  return risk <= 0.5 ? DecisionRating.FAIR : DecisionRating.RISKY;
+};
+
+export const analyzeGame = (record: GameRecord): GameAnalysis => {
+  const { tileSet } = record.config;
+  const states = replayRecord(record);
+  const guesses: GuessReview[] = [];
+  const missedTiles: MissedTile[] = [];
+  const decisions: ResolveReview[] = [];
+
+  // Tiles the current player had worked out this turn, and the ones they went for
+  let determined = new Map<string, Determined>();
+  let guessed = new Set<string>();
+  const reported = new Set<string>(); // `${playerId}:${tileId}`, so each miss is listed once
+
+  const closeTurn = (state: GameState) => {
+    for (const [tileId, { targetId, value }] of determined) {
+      const key = `${state.currentTurnPlayerId}:${tileId}`;
+      if (guessed.has(tileId) || reported.has(key)) continue;
+      reported.add(key);
+      missedTiles.push({ moveNumber: state.moveNumber, playerId: state.currentTurnPlayerId, targetId, tileId, value });
+    }
+    determined = new Map();
+    guessed = new Set();
+  };
+
+  record.actions.forEach((action, step) => {
+    const before = states[step];
+    const after = states[step + 1];
+    const playerId = before.currentTurnPlayerId;
+    const isChoice = before.phase === GamePhase.GUESS || before.phase === GamePhase.RESOLVE;
+    const candidates = isChoice ? getOpponentCandidates(before, playerId, tileSet) : [];
+
+    for (const { tileId, targetId, candidates: values } of candidates) {
+      if (values.length === 1 && !determined.has(tileId)) determined.set(tileId, { targetId, value: values[0].value });
+    }
+
+    if (action.type === ActionType.GUESS) {
+      guessed.add(action.tileId);
+      const tile = candidates.find(c => c.tileId === action.tileId);
+      const made = after.events.find(e => e.seq > before.events.length && e.type === GameEventType.GUESS_MADE);
+      guesses.push({
+        step,
+        moveNumber: before.moveNumber,
+        playerId,
+        targetId: action.targetPlayerId,
+        tileId: action.tileId,
+        value: action.value,
+        isCorrect: made?.type === GameEventType.GUESS_MADE && made.isCorrect,
+        possibleValues: tile?.candidates.length ?? 0,
+        chance: tile?.candidates.find(c => c.value === action.value)?.probability ?? 0,
+      });
+    }
+
+    if (before.phase === GamePhase.RESOLVE && (action.type === ActionType.CONTINUE || action.type === ActionType.END_TURN)) {
+      const bestChance = Math.max(0, ...candidates.flatMap(c => c.candidates.map(v => v.probability)));
+      const stake: GuessStake = before.drawnTile ? 'DRAWN_TILE' : before.emptyPoolPenalty ? 'OWN_TILE' : 'NOTHING';
+      const risk = stake === 'NOTHING' ? 0 : 1 - bestChance;
+      const continued = action.type === ActionType.CONTINUE;
+      decisions.push({ step, moveNumber: before.moveNumber, playerId, continued, bestChance, stake, risk, rating: rateDecision(continued, risk) });
+    }
+
+    const turnOver =
+      after.phase === GamePhase.GAME_OVER || after.moveNumber !== before.moveNumber || after.currentTurnPlayerId !== playerId;
+    if (turnOver) closeTurn(before);
+  });
+
+  return { guesses, missedTiles, decisions };
+};
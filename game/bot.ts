@@ -0,0 +1,210 @@
+import { GameState, GameAction, ActionType, GamePhase, BotDifficulty, Player, Tile, TileSet } from '../types';
+import { DEFAULT_BOT_DIFFICULTY, sortHand, getTileValues } from '../constants';
+import { getCurrentPlayer, getJokerSortValue } from './engine';
+import { getHandCandidates } from './deduction';
+import { Random } from './random';
+
+export interface BotGuess {
+  targetPlayerId: string;
+  tileId: string;
+  value: number;
+  probability: number;
+}
+
+interface BotProfile {
+  pickGuess: (state: GameState, bot: Player, tileSet: TileSet, random: Random) => BotGuess | null;
+  // Whether to guess again after a correct guess, given how likely the next guess is
+  shouldContinue: (nextGuess: BotGuess, random: Random) => boolean;
+  // Which of its own hidden tiles to give up after a wrong guess with the pool empty
+  pickReveal: (state: GameState, bot: Player, tileSet: TileSet, random: Random) => string;
+  // Where in its hand to put a Joker it was dealt or has just drawn
+  pickJokerPosition: (state: GameState, bot: Player, joker: Tile, tileSet: TileSet, random: Random) => number;
+}
+
+const pickOne = <T,>(items: T[], random: Random): T => items[Math.floor(random() * items.length)];
+
+const getOpponents = (state: GameState, botId: string) =>
+  state.players.filter(p => p.id !== botId && !p.isEliminated && p.hand.some(t => !t.isRevealed));
+
+// The single guess most likely to be right across every opponent's hidden tiles
+export const findBestGuess = (
+  state: GameState,
+  botId: string,
+  tileSet: TileSet,
+  random: Random
+): BotGuess | null => {
+  let best: BotGuess | null = null;
+  let ties = 0;
+
+  for (const opponent of getOpponents(state, botId)) {
+    for (const { tileId, candidates } of getHandCandidates(state, botId, opponent.id, tileSet)) {
+      for (const { value, probability } of candidates) {
+        if (best && probability < best.probability - 1e-9) continue;
+        if (best && probability <= best.probability + 1e-9) {
+          // Break ties uniformly so the bot is not predictable
+          ties++;
+          if (random() * ties >= 1) continue;
+        } else {
+          ties = 1;
+        }
+        best = { targetPlayerId: opponent.id, tileId, value, probability };
+      }
+    }
+  }
+
+  return best;
+};
+
+// Any hidden tile, any value: ignores everything on the table
+const pickRandomGuess: BotProfile['pickGuess'] = (state, bot, tileSet, random) => {
+  const opponents = getOpponents(state, bot.id);
+  if (opponents.length === 0) return null;
+
+  const target = pickOne(opponents, random);
+  const tile = pickOne(target.hand.filter(t => !t.isRevealed), random);
+  const values = getTileValues(tileSet);
+
+  return { targetPlayerId: target.id, tileId: tile.id, value: pickOne(values, random), probability: 1 / values.length };
+};
+
+// A random hidden tile, with a value drawn in proportion to how likely it is
+const pickCasualGuess: BotProfile['pickGuess'] = (state, bot, tileSet, random) => {
+  const opponents = getOpponents(state, bot.id);
+  if (opponents.length === 0) return null;
+
+  const target = pickOne(opponents, random);
+  const { tileId, candidates } = pickOne(getHandCandidates(state, bot.id, target.id, tileSet), random);
+  if (candidates.length === 0) return null;
+
+  let roll = random();
+  for (const candidate of candidates) {
+    roll -= candidate.probability;
+    if (roll <= 0) return { targetPlayerId: target.id, tileId, ...candidate };
+  }
+  return { targetPlayerId: target.id, tileId, ...candidates[candidates.length - 1] };
+};
+
+const pickRandomReveal: BotProfile['pickReveal'] = (state, bot, tileSet, random) =>
+  pickOne(bot.hand.filter(t => !t.isRevealed), random).id;
+
+// How sure the table is of each of the bot's hidden tiles, by what every opponent can deduce
+// from public information alone (an empty viewer id sees no private hand)
+const getExposure = (state: GameState, botId: string, tileSet: TileSet) =>
+  getHandCandidates(state, '', botId, tileSet).map(({ tileId, candidates }) => ({
+    tileId,
+    top: Math.max(0, ...candidates.map(c => c.probability)),
+  }));
+
+// The hidden tile the table is closest to working out anyway
+const pickExposedReveal: BotProfile['pickReveal'] = (state, bot, tileSet, random) => {
+  const exposure = getExposure(state, bot.id, tileSet);
+  const best = Math.max(...exposure.map(e => e.top));
+  return pickOne(exposure.filter(e => e.top >= best - 1e-9), random).tileId;
+};
+
+// Positions a Joker can take: among the other tiles of the hand, drawn or not
+const getJokerSlots = (bot: Player, joker: Tile) =>
+  bot.hand.length - (bot.hand.some(t => t.id === joker.id) ? 1 : 0) + 1;
+
+const pickRandomJokerPosition: BotProfile['pickJokerPosition'] = (state, bot, joker, tileSet, random) =>
+  Math.floor(random() * getJokerSlots(bot, joker));
+
+// Every spot for the Joker, with how sure the table would be of the bot's hand as a whole
+const getJokerOptions = (state: GameState, bot: Player, joker: Tile, tileSet: TileSet) =>
+  Array.from({ length: getJokerSlots(bot, joker) }, (_, position) => {
+    const placed = { ...joker, sortValue: getJokerSortValue(bot.hand, joker.id, position) };
+    const hand = sortHand([...bot.hand.filter(t => t.id !== joker.id), placed], state.colorOrder);
+    const players = state.players.map(p => (p.id === bot.id ? { ...p, hand } : p));
+    const exposure = getExposure({ ...state, players }, bot.id, tileSet);
+    return { position, exposure: exposure.reduce((sum, e) => sum + e.top, 0) };
+  });
+
+// Any of the better hidden half of the spots
+const pickCasualJokerPosition: BotProfile['pickJokerPosition'] = (state, bot, joker, tileSet, random) => {
+  const options = getJokerOptions(state, bot, joker, tileSet).sort((a, b) => a.exposure - b.exposure);
+  return pickOne(options.slice(0, Math.ceil(options.length / 2)), random).position;
+};
+
+// The spot that leaves the table least sure of the bot's hand as a whole
+const pickHiddenJokerPosition: BotProfile['pickJokerPosition'] = (state, bot, joker, tileSet, random) => {
+  const options = getJokerOptions(state, bot, joker, tileSet);
+  const best = Math.min(...options.map(o => o.exposure));
+  return pickOne(options.filter(o => o.exposure <= best + 1e-9), random).position;
+};
+
+const EXPERT_PROFILE: BotProfile = {
+  pickGuess: (state, bot, tileSet, random) => findBestGuess(state, bot.id, tileSet, random),
+  shouldContinue: next => next.probability >= 0.5,
+  pickReveal: pickExposedReveal,
+  pickJokerPosition: pickHiddenJokerPosition,
+};
+
+const BOT_PROFILES: Record<BotDifficulty, BotProfile> = {
+  [BotDifficulty.RANDOM]: {
+    pickGuess: pickRandomGuess,
+    shouldContinue: (_, random) => random() < 0.5,
+    pickReveal: pickRandomReveal,
+    pickJokerPosition: pickRandomJokerPosition,
+  },
+  [BotDifficulty.CASUAL]: {
+    pickGuess: pickCasualGuess,
+    shouldContinue: next => next.probability >= 0.8,
+    pickReveal: pickRandomReveal,
+    pickJokerPosition: pickCasualJokerPosition,
+  },
+  [BotDifficulty.EXPERT]: EXPERT_PROFILE,
+  // Played by a language model (see strategy.ts); this is its fallback when the model fails
+  [BotDifficulty.GEMINI]: EXPERT_PROFILE,
+};
+
+// Picks the next action for a bot seat, or null if it has nothing to do
+export const chooseBotAction = (
+  state: GameState,
+  tileSet: TileSet,
+  random: Random
+): GameAction | null => {
+  const bot = getCurrentPlayer(state);
+  if (!bot) return null;
+  const profile = BOT_PROFILES[bot.difficulty ?? DEFAULT_BOT_DIFFICULTY];
+
+  switch (state.phase) {
+    case GamePhase.SETUP: {
+      const joker = bot.hand.find(t => t.isJoker && !t.isPlaced);
+      if (!joker) return { type: ActionType.END_TURN };
+      return { type: ActionType.PLACE_JOKER, tileId: joker.id, position: profile.pickJokerPosition(state, bot, joker, tileSet, random) };
+    }
+
+    case GamePhase.DRAW:
+      return { type: ActionType.DRAW };
+
+    case GamePhase.GUESS: {
+      const drawn = state.drawnTile;
+      if (drawn?.isJoker && !drawn.isPlaced) {
+        return { type: ActionType.PLACE_JOKER, tileId: drawn.id, position: profile.pickJokerPosition(state, bot, drawn, tileSet, random) };
+      }
+
+      const guess = profile.pickGuess(state, bot, tileSet, random);
+      if (!guess) return { type: ActionType.END_TURN };
+      return { type: ActionType.GUESS, targetPlayerId: guess.targetPlayerId, tileId: guess.tileId, value: guess.value };
+    }
+
+    case GamePhase.RESOLVE: {
+      // Without a drawn tile a wrong guess costs nothing under the free house rule, so keep going
+      if (!state.drawnTile && !state.emptyPoolPenalty) return { type: ActionType.CONTINUE };
+      // Judge the odds of the best available guess, whichever guess the bot then actually makes
+      const next = findBestGuess(state, bot.id, tileSet, random);
+      return next && profile.shouldContinue(next, random)
+        ? { type: ActionType.CONTINUE }
+        : { type: ActionType.END_TURN };
+    }
+
+    case GamePhase.TURN_END:
+      return { type: ActionType.END_TURN };
+
+    case GamePhase.REVEAL_OWN:
+      return { type: ActionType.REVEAL_OWN, tileId: profile.pickReveal(state, bot, tileSet, random) };
+
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,15 @@
+import { ClockConfig, Player } from '../types';
+
+// Chess clock: every seat has a bank of seconds for the whole game, topped up by the
+// increment after each of its turns. Counting the seconds down is left to the app.
+
+export const createClocks = (players: Player[], clock: ClockConfig): Record<string, number> =>
+  Object.fromEntries(players.map(p => [p.id, clock.bankSeconds]));
+
+export const addIncrement = (clocks: Record<string, number>, playerId: string, clock: ClockConfig): Record<string, number> => ({
+  ...clocks,
+  [playerId]: (clocks[playerId] ?? 0) + clock.incrementSeconds,
+});
+
+// "4:05"
+export const formatClock = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
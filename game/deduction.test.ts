@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ActionType } from '../types';
+import { applyAction } from './engine';
+import { getHandCandidates } from './deduction';
+import { parseRecord } from './record';
+
+// P0 holds B0 and W2 and looks at P1's black and white tile
+const record = parseRecord(`DaVinciCode 1
+Timer 0
+Tiles max:3 colors:BW jokers:0 hand:2
+Seat P0 human 🐶 Alice
+Seat P1 human 🐱 Bob
+EmptyPool reveal
+Hand P0 B0 W2
+Hand P1 B1 W3
+Pool W0 B2 W1 B3
+Moves
+`);
+const { initialState, config } = record;
+
+const chances = (state = initialState) =>
+  getHandCandidates(state, 'p-0', 'p-1', config.tileSet).map(({ tileId, candidates }) => ({
+    tileId,
+    chances: Object.fromEntries(candidates.map(c => [c.value, c.probability])),
+  }));
+
+test('candidates weigh every hand order the viewer cannot rule out equally', () => {
+  // Black 1, 2 or 3 on the left, white 0, 1 or 3 on the right, the left one lower:
+  // B1 W1, B1 W3, B2 W3, B3 W3
+  assert.deepEqual(chances(), [
+    { tileId: 'b-1', chances: { 1: 2 / 4, 2: 1 / 4, 3: 1 / 4 } },
+    { tileId: 'w-3', chances: { 1: 1 / 4, 3: 3 / 4 } },
+  ]);
+});
+
+test('a wrong guess rules its value out', () => {
+  const drawn = applyAction(initialState, { type: ActionType.DRAW });
+  const miss = applyAction(drawn, { type: ActionType.GUESS, targetPlayerId: 'p-1', tileId: 'b-1', value: 2 });
+  // B3 is the drawn tile now, which leaves B1 W1 and B1 W3
+  assert.deepEqual(chances(miss), [
+    { tileId: 'b-1', chances: { 1: 1 } },
+    { tileId: 'w-3', chances: { 1: 1 / 2, 3: 1 / 2 } },
+  ]);
+});
+
+test('a revealed tile is no longer a candidate and narrows its neighbours', () => {
+  const drawn = applyAction(initialState, { type: ActionType.DRAW });
+  const hit = applyAction(drawn, { type: ActionType.GUESS, targetPlayerId: 'p-1', tileId: 'w-3', value: 3 });
+  assert.deepEqual(chances(hit), [{ tileId: 'b-1', chances: { 1: 1 / 2, 2: 1 / 2 } }]);
+});
@@ -0,0 +1,143 @@
+import { GameState, Tile, TileSet, TileCandidates } from '../types';
+import { JOKER_VALUE } from '../constants';
+
+// Deduces what a viewer can know about another player's hidden tiles. Only public
+// information is used: hand order, tile colors, revealed tiles, wrong guesses and the
+// viewer's own tiles. Hidden values are never read.
+
+const NO_KEY = -1;
+
+// Position of a numbered tile in the hand order: by value, then by the set's color order
+const tileKey = (tileSet: TileSet, tile: Tile, value: number) =>
+  value * tileSet.colors.length + tileSet.colors.indexOf(tile.color);
+
+const isJokerTile = (tile: Tile) => tile.isJoker || tile.value === JOKER_VALUE;
+
+// Tiles whose value the viewer has seen: their own hand and drawn tile, plus everything revealed
+const getKnownTiles = (state: GameState, viewerId: string): Tile[] => {
+  const known = state.players.flatMap(p => p.hand.filter(t => t.isRevealed || p.id === viewerId));
+  if (state.drawnTile && (state.drawnTile.isRevealed || state.currentTurnPlayerId === viewerId)) {
+    known.push(state.drawnTile);
+  }
+  return known;
+};
+
+// Values (JOKER_VALUE for a Joker) still possible for a single tile, ignoring hand order
+const getOpenValues = (
+  state: GameState,
+  tile: Tile,
+  knownTiles: Tile[],
+  tileSet: TileSet
+): number[] => {
+  const ruledOut = new Set(state.wrongGuesses.filter(g => g.tileId === tile.id).map(g => g.value));
+  const seen = knownTiles.filter(t => t.color === tile.color);
+  const values: number[] = [];
+
+  for (let v = 0; v <= tileSet.maxNumber; v++) {
+    if (!ruledOut.has(v) && !seen.some(t => !isJokerTile(t) && t.value === v)) values.push(v);
+  }
+  // Each color has at most one Joker, and only the first `jokerCount` colors have one
+  const colorHasJoker = tileSet.colors.indexOf(tile.color) < tileSet.jokerCount;
+  if (colorHasJoker && !ruledOut.has(JOKER_VALUE) && !seen.some(isJokerTile)) {
+    values.push(JOKER_VALUE);
+  }
+  return values;
+};
+
+// Counts the orderings of a hand consistent with its candidate values. A forward pass
+// counts prefixes and a backward pass counts suffixes, both keyed by the last numbered
+// tile seen; Jokers do not take part in the order. Two Jokers of one color in the same
+// hand are not excluded, which slightly overweights Jokers.
+const countOrderings = (hand: Tile[], options: number[][], tileSet: TileSet) => {
+  const n = hand.length;
+  const keyCount = (tileSet.maxNumber + 1) * tileSet.colors.length + 1; // +1 for NO_KEY at index 0
+  const idx = (key: number) => key + 1;
+
+  const forward: number[][] = Array.from({ length: n + 1 }, () => new Array(keyCount).fill(0));
+  const backward: number[][] = Array.from({ length: n + 1 }, () => new Array(keyCount).fill(0));
+  forward[0][idx(NO_KEY)] = 1;
+  backward[n].fill(1);
+
+  for (let i = 0; i < n; i++) {
+    for (let last = NO_KEY; last < keyCount - 1; last++) {
+      const ways = forward[i][idx(last)];
+      if (ways === 0) continue;
+      for (const value of options[i]) {
+        if (value === JOKER_VALUE) {
+          forward[i + 1][idx(last)] += ways;
+          continue;
+        }
+        const key = tileKey(tileSet, hand[i], value);
+        if (key > last) forward[i + 1][idx(key)] += ways;
+      }
+    }
+  }
+
+  for (let i = n - 1; i >= 0; i--) {
+    for (let last = NO_KEY; last < keyCount - 1; last++) {
+      let ways = 0;
+      for (const value of options[i]) {
+        if (value === JOKER_VALUE) {
+          ways += backward[i + 1][idx(last)];
+          continue;
+        }
+        const key = tileKey(tileSet, hand[i], value);
+        if (key > last) ways += backward[i + 1][idx(key)];
+      }
+      backward[i][idx(last)] = ways;
+    }
+  }
+
+  // Number of full orderings in which tile i holds `value`
+  const waysWith = (i: number, value: number) => {
+    let ways = 0;
+    for (let last = NO_KEY; last < keyCount - 1; last++) {
+      const prefix = forward[i][idx(last)];
+      if (prefix === 0) continue;
+      if (value === JOKER_VALUE) {
+        ways += prefix * backward[i + 1][idx(last)];
+      } else {
+        const key = tileKey(tileSet, hand[i], value);
+        if (key > last) ways += prefix * backward[i + 1][idx(key)];
+      }
+    }
+    return ways;
+  };
+
+  return { total: backward[0][idx(NO_KEY)], waysWith };
+};
+
+// Candidate values with probabilities for every hidden tile of `targetPlayerId`, as seen by `viewerId`
+export const getHandCandidates = (
+  state: GameState,
+  viewerId: string,
+  targetPlayerId: string,
+  tileSet: TileSet
+): TileCandidates[] => {
+  const target = state.players.find(p => p.id === targetPlayerId);
+  if (!target) return [];
+
+  const knownTiles = getKnownTiles(state, viewerId);
+  const isVisible = (tile: Tile) => tile.isRevealed || targetPlayerId === viewerId;
+  const options = target.hand.map(tile => {
+    if (isVisible(tile)) return [isJokerTile(tile) ? JOKER_VALUE : tile.value];
+    return getOpenValues(state, tile, knownTiles, tileSet);
+  });
+
+  const { total, waysWith } = countOrderings(target.hand, options, tileSet);
+
+  return target.hand
+    .map((tile, i) => ({ tile, i }))
+    .filter(({ tile }) => !isVisible(tile))
+    .map(({ tile, i }) => {
+      // If the counts found no consistent ordering, fall back to the plain open values
+      const weights = options[i].map(value => (total > 0 ? waysWith(i, value) : 1));
+      const sum = weights.reduce((a, b) => a + b, 0);
+      return {
+        tileId: tile.id,
+        candidates: options[i]
+          .map((value, j) => ({ value, probability: sum > 0 ? weights[j] / sum : 0 }))
+          .filter(c => c.probability > 0),
+      };
+    });
+};
@@ -0,0 +1,146 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ActionType, GameAction, GamePhase, GameState, TimeoutPolicy } from '../types';
+import { applyAction, getLegalActions } from './engine';
+import { parseRecord } from './record';
+
+// Two hands of two from the tiles 0-3 in black and white; P0 draws B3 first. Tests of the
+// empty pool simply clear it.
+const deal = (emptyPool = 'reveal') => {
+  const record = parseRecord(`DaVinciCode 1
+Timer 0
+Tiles max:3 colors:BW jokers:0 hand:2
+Seat P0 human 🐶 Alice
+Seat P1 human 🐱 Bob
+EmptyPool ${emptyPool}
+Hand P0 B0 W2
+Hand P1 B1 W3
+Pool W0 B2 W1 B3
+Moves
+`);
+  return { state: record.initialState, tileSet: record.config.tileSet };
+};
+
+const play = (state: GameState, ...actions: GameAction[]) =>
+  actions.reduce((current, action) => {
+    const next = applyAction(current, action);
+    assert.notEqual(next, current, `${action.type} should be legal in ${current.phase}`);
+    return next;
+  }, state);
+
+const hand = (state: GameState, playerId: string) => state.players.find(p => p.id === playerId)!.hand;
+
+const DRAW: GameAction = { type: ActionType.DRAW };
+const END_TURN: GameAction = { type: ActionType.END_TURN };
+const guess = (tileId: string, value: number): GameAction => ({ type: ActionType.GUESS, targetPlayerId: 'p-1', tileId, value });
+
+test('the only legal move at the start of a turn is the draw', () => {
+  const { state, tileSet } = deal();
+  assert.deepEqual(getLegalActions(state, tileSet), [DRAW]);
+  assert.equal(applyAction(state, guess('b-1', 1)), state);
+  assert.equal(applyAction(state, { type: ActionType.CONTINUE }), state);
+  assert.equal(applyAction(state, END_TURN), state);
+});
+
+test('every listed action is legal and nothing else is', () => {
+  const { state, tileSet } = deal();
+  const drawn = play(state, DRAW);
+  assert.equal(drawn.drawnTile?.id, 'b-3');
+
+  const legal = getLegalActions(drawn, tileSet);
+  assert.equal(legal.length, 2 * 4 + 1); // Both hidden opponent tiles, 0-3 each, or stop
+  for (const action of legal) assert.notEqual(applyAction(drawn, action), drawn);
+
+  assert.equal(applyAction(drawn, { type: ActionType.GUESS, targetPlayerId: 'p-0', tileId: 'b-0', value: 0 }), drawn);
+  assert.equal(applyAction(drawn, guess('b-2', 2)), drawn); // In the pool, not in P1's hand
+  assert.equal(applyAction(drawn, DRAW), drawn);
+  assert.equal(applyAction(drawn, { type: ActionType.REVEAL_OWN, tileId: 'b-0' }), drawn);
+});
+
+test('a correct guess reveals the tile and a stop keeps the drawn tile hidden', () => {
+  const { state } = deal();
+  const hit = play(state, DRAW, guess('b-1', 1));
+  assert.equal(hit.phase, GamePhase.RESOLVE);
+  assert.ok(hand(hit, 'p-1').find(t => t.id === 'b-1')!.isRevealed);
+
+  const stopped = play(hit, END_TURN);
+  assert.equal(stopped.currentTurnPlayerId, 'p-1');
+  assert.equal(stopped.phase, GamePhase.DRAW);
+  assert.equal(hand(stopped, 'p-0').find(t => t.id === 'b-3')?.isRevealed, false);
+});
+
+test('a wrong guess costs the drawn tile', () => {
+  const { state } = deal();
+  const miss = play(state, DRAW, guess('b-1', 2));
+  assert.equal(miss.phase, GamePhase.TURN_END);
+  assert.deepEqual(miss.wrongGuesses, [{ tileId: 'b-1', value: 2 }]);
+
+  const ended = play(miss, END_TURN);
+  assert.equal(hand(ended, 'p-0').find(t => t.id === 'b-3')?.isRevealed, true);
+  assert.equal(ended.currentTurnPlayerId, 'p-1');
+  assert.equal(ended.moveNumber, 2);
+});
+
+test('a wrong guess with the pool empty costs a tile of the guesser\'s choosing', () => {
+  const { state, tileSet } = deal();
+  const emptyPool = { ...state, pool: [] };
+  const miss = play(emptyPool, DRAW, guess('b-1', 2));
+  assert.equal(miss.phase, GamePhase.REVEAL_OWN);
+  assert.deepEqual(getLegalActions(miss, tileSet), [
+    { type: ActionType.REVEAL_OWN, tileId: 'b-0' },
+    { type: ActionType.REVEAL_OWN, tileId: 'w-2' },
+  ]);
+  assert.equal(applyAction(miss, END_TURN), miss);
+  assert.equal(applyAction(miss, { type: ActionType.REVEAL_OWN, tileId: 'b-1' }), miss);
+
+  const revealed = play(miss, { type: ActionType.REVEAL_OWN, tileId: 'w-2' });
+  assert.equal(hand(revealed, 'p-0').find(t => t.id === 'w-2')?.isRevealed, true);
+  assert.equal(revealed.currentTurnPlayerId, 'p-1');
+  assert.equal(revealed.phase, GamePhase.DRAW);
+});
+
+test('with free empty-pool guesses a miss only ends the turn', () => {
+  const { state } = deal('free');
+  const miss = play({ ...state, pool: [] }, DRAW, guess('b-1', 2));
+  assert.equal(miss.phase, GamePhase.TURN_END);
+  const ended = play(miss, END_TURN);
+  assert.ok(hand(ended, 'p-0').every(t => !t.isRevealed));
+});
+
+test('running out of time plays out each timeout policy', () => {
+  const { state } = deal();
+  const timeOut = (from: GameState, policy: TimeoutPolicy) => play(from, { type: ActionType.TIME_OUT, policy });
+
+  // Auto-play draws, makes no guess and so gives the drawn tile away
+  const auto = timeOut(state, TimeoutPolicy.AUTO_PLAY);
+  assert.equal(auto.currentTurnPlayerId, 'p-1');
+  assert.equal(hand(auto, 'p-0').find(t => t.id === 'b-3')?.isRevealed, true);
+
+  // Losing the turn skips the draw altogether
+  const lost = timeOut(state, TimeoutPolicy.LOSE_TURN);
+  assert.equal(lost.currentTurnPlayerId, 'p-1');
+  assert.equal(lost.pool.length, state.pool.length);
+  assert.equal(hand(lost, 'p-0').length, 2);
+
+  // Elimination lays the hand open and, with two seats, ends the game
+  const out = timeOut(play(state, DRAW), TimeoutPolicy.ELIMINATE);
+  assert.equal(out.phase, GamePhase.GAME_OVER);
+  assert.equal(out.winnerId, 'p-1');
+  assert.ok(hand(out, 'p-0').every(t => t.isRevealed));
+  assert.equal(hand(out, 'p-0').length, 3);
+
+  // A wrong guess still owes its tile: the leftmost hidden one goes
+  const owing = play({ ...state, pool: [] }, DRAW, guess('b-1', 2));
+  const settled = timeOut(owing, TimeoutPolicy.LOSE_TURN);
+  assert.equal(hand(settled, 'p-0').find(t => t.id === 'b-0')?.isRevealed, true);
+  assert.equal(settled.currentTurnPlayerId, 'p-1');
+});
+
+test('nothing happens once the game is over', () => {
+  const { state, tileSet } = deal();
+  const over = play(state, DRAW, guess('b-1', 1), { type: ActionType.CONTINUE }, guess('w-3', 3));
+  assert.equal(over.phase, GamePhase.GAME_OVER);
+  assert.equal(over.winnerId, 'p-0');
+  assert.deepEqual(getLegalActions(over, tileSet), []);
+  assert.equal(applyAction(over, END_TURN), over);
+});
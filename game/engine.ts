@@ -0,0 +1,432 @@
+import {
+  GameState,
+  GamePhase,
+  GameAction,
+  ActionType,
+  GameConfig,
+  Player,
+  Tile,
+  TileColor,
+  TileSet,
+  GameEvent,
+  GameEventType,
+  TimeoutPolicy,
+} from '../types';
+import { sortHand, DEFAULT_BOT_DIFFICULTY, MAX_PLAYERS, MAX_TILE_NUMBER, getTileValues, getDeckSize } from '../constants';
+
+// Pure rules engine: every function takes a GameState and returns a new one.
+// No React, timers or randomness in here - callers shuffle the deck and pick moves.
+
+// Event fields filled in by the engine; the union stays discriminated by `type`
+type EventPayload<E = GameEvent> = E extends GameEvent ? Omit<E, 'seq' | 'moveNumber' | 'actorId'> : never;
+
+const addEvent = (state: GameState, event: EventPayload): GameState => ({
+  ...state,
+  events: [
+    ...state.events,
+    { ...event, seq: state.events.length + 1, moveNumber: state.moveNumber, actorId: state.currentTurnPlayerId } as GameEvent,
+  ],
+});
+
+export const getTilesPerPlayer = (tileSet: TileSet, playerCount: number) => tileSet.handSize ?? (playerCount >= 4 ? 3 : 4);
+
+// A box of tiles is made for up to four players. Larger tables get higher numbers until the
+// pool left after the deal holds two draws per player.
+export const scaleTileSet = (tileSet: TileSet, playerCount: number): TileSet => {
+  if (playerCount <= 4) return tileSet;
+  const needed = (getTilesPerPlayer(tileSet, playerCount) + 2) * playerCount;
+  let scaled = tileSet;
+  while (getDeckSize(scaled) < needed && scaled.maxNumber < MAX_TILE_NUMBER) {
+    scaled = { ...scaled, maxNumber: scaled.maxNumber + 1 };
+  }
+  return scaled;
+};
+
+// Why the tile set cannot be dealt to these players, or null if it can
+export const getDealProblem = (config: GameConfig): string | null => {
+  const { tileSet } = config;
+  if (!tileSet || !Array.isArray(tileSet.colors)) return 'Missing tile set';
+  if (!Number.isInteger(tileSet.maxNumber) || tileSet.maxNumber < 1) return 'Tiles need at least the numbers 0 and 1';
+  if (tileSet.maxNumber > MAX_TILE_NUMBER) return `Tiles go up to ${MAX_TILE_NUMBER} at most`;
+  if (tileSet.colors.some(color => !Object.values(TileColor).includes(color))) return 'Unknown tile color';
+  if (tileSet.colors.length < 2 || new Set(tileSet.colors).size !== tileSet.colors.length) return 'Tiles need two or three different colors';
+  if (!Number.isInteger(tileSet.jokerCount) || tileSet.jokerCount < 0 || tileSet.jokerCount > tileSet.colors.length) return 'At most one Joker per color';
+  if (tileSet.handSize !== undefined && (!Number.isInteger(tileSet.handSize) || tileSet.handSize < 1)) return 'Invalid hand size';
+  if (config.playerCount > MAX_PLAYERS) return `At most ${MAX_PLAYERS} players`;
+  const handSize = getTilesPerPlayer(tileSet, config.playerCount);
+  const needed = handSize * config.playerCount;
+  if (needed > getDeckSize(tileSet)) return `Not enough tiles: ${config.playerCount} hands of ${handSize} need ${needed}`;
+  return null;
+};
+
+// Deals from an already shuffled deck. The last tile of the pool is drawn first.
+export const createGame = (config: GameConfig, deck: Tile[]): GameState => {
+  const tilesPerPlayer = getTilesPerPlayer(config.tileSet, config.playerCount);
+  const pool = [...deck];
+  const players: Player[] = [];
+
+  for (let i = 0; i < config.playerCount; i++) {
+    const details = config.playerDetails[i];
+    const id = `p-${i}`;
+    const hand = pool.splice(0, tilesPerPlayer).map(t => ({ ...t, ownerId: id }));
+
+    players.push({
+      id,
+      name: details.name,
+      isBot: details.isBot,
+      difficulty: details.isBot ? details.difficulty ?? DEFAULT_BOT_DIFFICULTY : undefined,
+      hand: sortHand(hand, config.tileSet.colors),
+      isEliminated: false,
+      avatar: details.avatar,
+    });
+  }
+
+  const firstPlayerId = players[config.firstPlayerIndex ?? 0].id;
+  return startJokerSetup({
+    players,
+    currentTurnPlayerId: firstPlayerId,
+    drawnTile: null,
+    pool,
+    phase: GamePhase.DRAW,
+    winnerId: null,
+    events: [],
+    moveNumber: 1,
+    wrongGuesses: [],
+    emptyPoolPenalty: !config.freeEmptyPoolGuesses,
+    firstPlayerId,
+    colorOrder: config.tileSet.colors,
+  });
+};
+
+const hasUnplacedJoker = (player: Player) => player.hand.some(t => t.isJoker && !t.isPlaced && !t.isRevealed);
+
+// The first seat, in turn order from the first player, still to place a dealt Joker
+const getSetupPlayerId = (state: GameState): string | undefined => {
+  const start = state.players.findIndex(p => p.id === state.firstPlayerId);
+  return state.players
+    .map((_, i) => state.players[(start + i) % state.players.length])
+    .find(hasUnplacedJoker)?.id;
+};
+
+// Seats dealt a Joker place it privately before the first draw, so nobody has to give it
+// away by moving it mid-game. `state` is a fresh deal with the first player to move.
+export const startJokerSetup = (state: GameState): GameState => {
+  const setupPlayerId = getSetupPlayerId(state);
+  return setupPlayerId ? { ...state, phase: GamePhase.SETUP, currentTurnPlayerId: setupPlayerId } : state;
+};
+
+// A seat is done with the setup: Jokers it left alone stay put for good
+const finishJokerSetup = (state: GameState): GameState => {
+  const players = state.players.map(p =>
+    p.id === state.currentTurnPlayerId ? { ...p, hand: p.hand.map(t => (t.isJoker ? { ...t, isPlaced: true } : t)) } : p
+  );
+  const next = { ...state, players };
+  const setupPlayerId = getSetupPlayerId(next);
+  return setupPlayerId
+    ? { ...next, currentTurnPlayerId: setupPlayerId }
+    : { ...next, phase: GamePhase.DRAW, currentTurnPlayerId: state.firstPlayerId };
+};
+
+export const getCurrentPlayer = (state: GameState): Player | undefined =>
+  state.players.find(p => p.id === state.currentTurnPlayerId);
+
+// Returns the next seat still in the game, or the current one if nobody else is left
+export const getNextPlayerId = (players: Player[], currentId: string): string => {
+  const idx = players.findIndex(p => p.id === currentId);
+  for (let step = 1; step <= players.length; step++) {
+    const candidate = players[(idx + step) % players.length];
+    if (!candidate.isEliminated) return candidate.id;
+  }
+  return currentId;
+};
+
+// Sort value that lands a Joker at `position` among the other tiles of the hand
+export const getJokerSortValue = (hand: Tile[], jokerId: string, position: number): number => {
+  const others = hand.filter(t => t.id !== jokerId);
+  if (others.length === 0) return 0;
+
+  const clamped = Math.max(0, Math.min(position, others.length));
+  if (clamped === 0) return others[0].sortValue - 1;
+  if (clamped === others.length) return others[others.length - 1].sortValue + 1;
+  return (others[clamped - 1].sortValue + others[clamped].sortValue) / 2;
+};
+
+const drawTile = (state: GameState): GameState => {
+  if (state.phase !== GamePhase.DRAW) return state;
+
+  if (state.pool.length === 0) {
+    return addEvent({ ...state, phase: GamePhase.GUESS }, { type: GameEventType.TILE_DRAWN, tileId: null, color: null });
+  }
+
+  const pool = state.pool.slice(0, -1);
+  const tile = { ...state.pool[state.pool.length - 1], ownerId: state.currentTurnPlayerId };
+
+  return addEvent(
+    { ...state, pool, drawnTile: tile, phase: GamePhase.GUESS },
+    { type: GameEventType.TILE_DRAWN, tileId: tile.id, color: tile.color }
+  );
+};
+
+const checkWinner = (state: GameState): GameState => {
+  const activePlayers = state.players.filter(p => !p.isEliminated);
+  if (activePlayers.length !== 1) return state;
+
+  const winner = activePlayers[0];
+  let players = state.players;
+  // Keep every tile accounted for: a pending drawn tile joins the winner's hand
+  if (state.drawnTile) {
+    players = players.map(p =>
+      p.id === state.currentTurnPlayerId ? { ...p, hand: sortHand([...p.hand, state.drawnTile!], state.colorOrder) } : p
+    );
+  }
+
+  return addEvent(
+    { ...state, players, drawnTile: null, winnerId: winner.id, phase: GamePhase.GAME_OVER },
+    { type: GameEventType.GAME_WON, winnerId: winner.id }
+  );
+};
+
+const submitGuess = (
+  state: GameState,
+  targetPlayerId: string,
+  tileId: string,
+  value: number
+): GameState => {
+  if (state.phase !== GamePhase.GUESS) return state;
+  if (targetPlayerId === state.currentTurnPlayerId) return state;
+
+  const target = state.players.find(p => p.id === targetPlayerId);
+  if (!target || target.isEliminated) return state;
+
+  const tile = target.hand.find(t => t.id === tileId);
+  if (!tile || tile.isRevealed) return state;
+
+  const isCorrect = tile.value === value;
+  let next = addEvent(state, { type: GameEventType.GUESS_MADE, targetId: targetPlayerId, tileId, value, isCorrect });
+
+  if (!isCorrect) {
+    // Without a drawn tile to give away, the guesser reveals a tile of their own instead
+    const phase = !state.drawnTile && state.emptyPoolPenalty ? GamePhase.REVEAL_OWN : GamePhase.TURN_END;
+    return { ...next, phase, wrongGuesses: [...state.wrongGuesses, { tileId, value }] };
+  }
+
+  const hand = target.hand.map(t => (t.id === tileId ? { ...t, isRevealed: true } : t));
+  const isEliminated = hand.every(t => t.isRevealed);
+  const players = state.players.map(p => (p.id === targetPlayerId ? { ...p, hand, isEliminated } : p));
+
+  next = addEvent(
+    { ...next, players, phase: GamePhase.RESOLVE },
+    { type: GameEventType.TILE_REVEALED, targetId: targetPlayerId, tileId, color: tile.color, value: tile.value, reason: 'GUESSED' }
+  );
+  if (isEliminated) {
+    next = addEvent(next, { type: GameEventType.PLAYER_ELIMINATED, targetId: targetPlayerId });
+  }
+  return checkWinner(next);
+};
+
+const continueTurn = (state: GameState): GameState => {
+  if (state.phase !== GamePhase.RESOLVE) return state;
+  return { ...state, phase: GamePhase.GUESS };
+};
+
+// Ending the turn after a correct guess keeps the drawn tile hidden; any other way reveals it
+const endTurn = (state: GameState): GameState => {
+  if (state.phase !== GamePhase.RESOLVE && state.phase !== GamePhase.GUESS && state.phase !== GamePhase.TURN_END) {
+    return state;
+  }
+
+  let next = state;
+  let players = state.players;
+
+  if (state.drawnTile) {
+    const wasSuccess = state.phase === GamePhase.RESOLVE;
+    const tileToInsert = { ...state.drawnTile, isRevealed: state.drawnTile.isRevealed || !wasSuccess };
+    if (!wasSuccess) {
+      next = addEvent(next, {
+        type: GameEventType.TILE_REVEALED,
+        targetId: state.currentTurnPlayerId,
+        tileId: tileToInsert.id,
+        color: tileToInsert.color,
+        value: tileToInsert.value,
+        reason: 'PENALTY',
+      });
+    }
+    players = players.map(p =>
+      p.id === state.currentTurnPlayerId ? { ...p, hand: sortHand([...p.hand, tileToInsert], state.colorOrder) } : p
+    );
+  }
+
+  return passTurn(next, players);
+};
+
+// Hands the turn to the next seat still in the game; any drawn tile must already be dealt with
+const passTurn = (state: GameState, players: Player[]): GameState => {
+  const nextPlayerId = getNextPlayerId(players, state.currentTurnPlayerId);
+  const next = addEvent(state, { type: GameEventType.TURN_ENDED, nextPlayerId });
+
+  return {
+    ...next,
+    players,
+    currentTurnPlayerId: nextPlayerId,
+    drawnTile: null,
+    phase: GamePhase.DRAW,
+    moveNumber: state.moveNumber + 1,
+  };
+};
+
+const revealOwnTile = (state: GameState, tileId: string): GameState => {
+  if (state.phase !== GamePhase.REVEAL_OWN) return state;
+
+  const player = getCurrentPlayer(state);
+  const tile = player?.hand.find(t => t.id === tileId);
+  if (!player || !tile || tile.isRevealed) return state;
+
+  const hand = player.hand.map(t => (t.id === tileId ? { ...t, isRevealed: true } : t));
+  const isEliminated = hand.every(t => t.isRevealed);
+  let next = addEvent(
+    { ...state, players: state.players.map(p => (p.id === player.id ? { ...p, hand, isEliminated } : p)) },
+    { type: GameEventType.TILE_REVEALED, targetId: player.id, tileId, color: tile.color, value: tile.value, reason: 'CHOSEN' }
+  );
+  if (isEliminated) {
+    next = addEvent(next, { type: GameEventType.PLAYER_ELIMINATED, targetId: player.id });
+  }
+
+  next = checkWinner(next);
+  return next.phase === GamePhase.GAME_OVER ? next : endTurn({ ...next, phase: GamePhase.TURN_END });
+};
+
+// The current player ran out of time. A Joker setup simply ends; a wrong guess still owes its
+// tile (the leftmost hidden one); otherwise the turn ends as `policy` says.
+const timeOut = (state: GameState, policy: TimeoutPolicy): GameState => {
+  if (state.phase === GamePhase.SETUP) return finishJokerSetup(state);
+  const player = getCurrentPlayer(state);
+  if (!player) return state;
+
+  const next = addEvent(state, { type: GameEventType.TIMED_OUT, policy });
+
+  if (policy === TimeoutPolicy.ELIMINATE) {
+    // Everything the player held is laid open, as with any other player who is out
+    const hand = sortHand([...player.hand, ...(state.drawnTile ? [state.drawnTile] : [])], state.colorOrder).map(t => ({ ...t, isRevealed: true }));
+    const players = next.players.map(p => (p.id === player.id ? { ...p, hand, isEliminated: true } : p));
+    const out = checkWinner(addEvent({ ...next, players, drawnTile: null }, { type: GameEventType.PLAYER_ELIMINATED, targetId: player.id }));
+    return out.phase === GamePhase.GAME_OVER ? out : passTurn(out, out.players);
+  }
+
+  switch (state.phase) {
+    case GamePhase.DRAW:
+      return policy === TimeoutPolicy.AUTO_PLAY ? endTurn(drawTile(next)) : passTurn(next, next.players);
+    case GamePhase.REVEAL_OWN:
+      return revealOwnTile(next, player.hand.find(t => !t.isRevealed)!.id);
+    default:
+      return endTurn(next);
+  }
+};
+
+const placeJoker = (state: GameState, tileId: string, position: number): GameState => {
+  if (state.phase === GamePhase.TURN_END || state.phase === GamePhase.REVEAL_OWN || state.phase === GamePhase.GAME_OVER) {
+    return state;
+  }
+
+  const player = getCurrentPlayer(state);
+  if (!player) return state;
+
+  const isDrawnTile = state.drawnTile?.id === tileId;
+  const joker = isDrawnTile ? state.drawnTile : player.hand.find(t => t.id === tileId);
+  if (!joker || !joker.isJoker || joker.isPlaced || joker.isRevealed) return state;
+
+  const sortValue = getJokerSortValue(player.hand, tileId, position);
+  const placed = { ...joker, sortValue, isPlaced: true };
+
+  // Setup placements are not part of anyone's turn and concern nobody else
+  const next = state.phase === GamePhase.SETUP ? state : addEvent(state, { type: GameEventType.JOKER_MOVED, tileId, position });
+  if (isDrawnTile) {
+    return { ...next, drawnTile: placed };
+  }
+
+  const hand = sortHand(player.hand.map(t => (t.id === tileId ? placed : t)), state.colorOrder);
+  return {
+    ...next,
+    players: next.players.map(p => (p.id === player.id ? { ...p, hand } : p)),
+  };
+};
+
+// A state restored by a takeback (see game/takeback.ts), with the takeback in its log
+export const markTakeback = (state: GameState, wholeTurn: boolean): GameState =>
+  addEvent(state, { type: GameEventType.TAKEN_BACK, wholeTurn });
+
+// Illegal actions leave the state untouched (same object), so callers can compare references
+export const applyAction = (state: GameState, action: GameAction): GameState => {
+  if (state.phase === GamePhase.GAME_OVER) return state;
+
+  switch (action.type) {
+    case ActionType.DRAW:
+      return drawTile(state);
+    case ActionType.GUESS:
+      return submitGuess(state, action.targetPlayerId, action.tileId, action.value);
+    case ActionType.CONTINUE:
+      return continueTurn(state);
+    case ActionType.END_TURN:
+      return state.phase === GamePhase.SETUP ? finishJokerSetup(state) : endTurn(state);
+    case ActionType.PLACE_JOKER:
+      return placeJoker(state, action.tileId, action.position);
+    case ActionType.REVEAL_OWN:
+      return revealOwnTile(state, action.tileId);
+    case ActionType.TIME_OUT:
+      return timeOut(state, action.policy);
+    default:
+      return state;
+  }
+};
+
+// Every action the current player may take. Guesses of a Joker are only listed when
+// the tile set has Jokers. TIME_OUT is left out: only the clock sends it.
+export const getLegalActions = (state: GameState, tileSet: TileSet): GameAction[] => {
+  const player = getCurrentPlayer(state);
+  if (!player || state.phase === GamePhase.GAME_OVER) return [];
+
+  const actions: GameAction[] = [];
+  if (state.phase !== GamePhase.TURN_END && state.phase !== GamePhase.REVEAL_OWN) {
+    const jokers = [...player.hand, ...(state.drawnTile ? [state.drawnTile] : [])]
+      .filter(t => t.isJoker && !t.isPlaced && !t.isRevealed);
+    for (const joker of jokers) {
+      const slots = joker.id === state.drawnTile?.id ? player.hand.length : player.hand.length - 1;
+      for (let position = 0; position <= slots; position++) {
+        actions.push({ type: ActionType.PLACE_JOKER, tileId: joker.id, position });
+      }
+    }
+  }
+
+  switch (state.phase) {
+    case GamePhase.SETUP:
+      actions.push({ type: ActionType.END_TURN });
+      break;
+    case GamePhase.DRAW:
+      actions.push({ type: ActionType.DRAW });
+      break;
+    case GamePhase.GUESS: {
+      const values = getTileValues(tileSet);
+      for (const target of state.players) {
+        if (target.id === player.id || target.isEliminated) continue;
+        for (const tile of target.hand.filter(t => !t.isRevealed)) {
+          for (const value of values) {
+            actions.push({ type: ActionType.GUESS, targetPlayerId: target.id, tileId: tile.id, value });
+          }
+        }
+      }
+      actions.push({ type: ActionType.END_TURN });
+      break;
+    }
+    case GamePhase.RESOLVE:
+      actions.push({ type: ActionType.CONTINUE }, { type: ActionType.END_TURN });
+      break;
+    case GamePhase.TURN_END:
+      actions.push({ type: ActionType.END_TURN });
+      break;
+    case GamePhase.REVEAL_OWN:
+      for (const tile of player.hand.filter(t => !t.isRevealed)) {
+        actions.push({ type: ActionType.REVEAL_OWN, tileId: tile.id });
+      }
+      break;
+  }
+  return actions;
+};
@@ -0,0 +1,69 @@
+import { GameEvent, GameEventType, Player, TileColor } from '../types';
+import { JOKER_VALUE, COLOR_NAMES } from '../constants';
+
+// Human-readable text for the game log. Only public information is shown: a drawn
+// tile's value stays hidden until the tile is revealed.
+
+export enum EventFilter {
+  ALL = 'ALL',
+  GUESSES = 'GUESSES',
+  REVEALS = 'REVEALS',
+  TURNS = 'TURNS',
+}
+
+export const EVENT_FILTER_LABELS: Record<EventFilter, string> = {
+  [EventFilter.ALL]: 'All',
+  [EventFilter.GUESSES]: 'Guesses',
+  [EventFilter.REVEALS]: 'Reveals',
+  [EventFilter.TURNS]: 'Turns',
+};
+
+const FILTERED_TYPES: Record<EventFilter, GameEventType[] | null> = {
+  [EventFilter.ALL]: null,
+  [EventFilter.GUESSES]: [GameEventType.GUESS_MADE],
+  [EventFilter.REVEALS]: [GameEventType.TILE_REVEALED, GameEventType.PLAYER_ELIMINATED, GameEventType.GAME_WON],
+  [EventFilter.TURNS]: [GameEventType.TILE_DRAWN, GameEventType.JOKER_MOVED, GameEventType.TIMED_OUT, GameEventType.TAKEN_BACK, GameEventType.TURN_ENDED],
+};
+
+export const matchesFilter = (event: GameEvent, filter: EventFilter, playerId: string | null): boolean => {
+  const types = FILTERED_TYPES[filter];
+  if (types && !types.includes(event.type)) return false;
+  if (!playerId) return true;
+  return event.actorId === playerId || ('targetId' in event && event.targetId === playerId);
+};
+
+export const valueLabel = (value: number) => (value === JOKER_VALUE ? 'Joker' : String(value));
+const colorLabel = (color: TileColor) => COLOR_NAMES[color];
+
+export const describeEvent = (event: GameEvent, players: Player[]): string => {
+  const nameOf = (id: string) => players.find(p => p.id === id)?.name ?? 'Someone';
+  const actor = nameOf(event.actorId);
+
+  switch (event.type) {
+    case GameEventType.TILE_DRAWN:
+      return event.color ? `${actor} drew a ${colorLabel(event.color)} tile.` : `Pool empty. ${actor} goes straight to guessing.`;
+    case GameEventType.GUESS_MADE:
+      return `${actor} guessed ${valueLabel(event.value)} on ${nameOf(event.targetId)}'s tile: ${event.isCorrect ? 'correct!' : 'wrong.'}`;
+    case GameEventType.TILE_REVEALED:
+      if (event.reason === 'GUESSED') {
+        return `${nameOf(event.targetId)}'s ${colorLabel(event.color)} ${valueLabel(event.value)} is revealed.`;
+      }
+      return event.reason === 'CHOSEN'
+        ? `Pool empty: ${actor} gives up their own ${colorLabel(event.color)} ${valueLabel(event.value)}.`
+        : `${actor} reveals the drawn ${colorLabel(event.color)} ${valueLabel(event.value)}.`;
+    case GameEventType.PLAYER_ELIMINATED:
+      return `${nameOf(event.targetId)} is eliminated!`;
+    case GameEventType.JOKER_MOVED:
+      return `${actor} moved a Joker.`;
+    case GameEventType.TIMED_OUT:
+      return `${actor} ran out of time.`;
+    case GameEventType.TAKEN_BACK:
+      return event.wholeTurn ? `${actor} took back their turn.` : `${actor} took back their last move.`;
+    case GameEventType.TURN_ENDED:
+      return `${actor} ends the turn. ${nameOf(event.nextPlayerId)} is up.`;
+    case GameEventType.GAME_WON:
+      return `${nameOf(event.winnerId)} wins!`;
+    default:
+      return '';
+  }
+};
@@ -0,0 +1,61 @@
+import { GamePhase, GameState, TileSet } from '../types';
+import { getDeckSize, sortHand } from '../constants';
+
+// Checks that a full (unredacted) game state is internally consistent. Returns what is wrong,
+// or an empty list. Development builds run it after every transition (see DebugOverlay);
+// a redacted player view fails it by design, as hidden tiles lose their sort values.
+
+export const validateGameState = (state: GameState, tileSet: TileSet): string[] => {
+  const problems: string[] = [];
+  const isOver = state.phase === GamePhase.GAME_OVER;
+
+  // Every tile of the box is in exactly one place: a hand, the drawn slot or the pool
+  const tiles = [...state.players.flatMap(p => p.hand), ...(state.drawnTile ? [state.drawnTile] : []), ...state.pool];
+  if (tiles.length !== getDeckSize(tileSet)) {
+    problems.push(`${tiles.length} tiles in play, the box holds ${getDeckSize(tileSet)}`);
+  }
+  const seen = new Set<string>();
+  for (const tile of tiles) {
+    if (seen.has(tile.id)) problems.push(`Tile ${tile.id} is in more than one place`);
+    seen.add(tile.id);
+  }
+
+  for (const player of state.players) {
+    const sorted = sortHand(player.hand, tileSet.colors);
+    if (sorted.some((tile, i) => tile.id !== player.hand[i].id)) {
+      problems.push(`${player.id}'s hand is out of order: ${player.hand.map(t => t.id).join(' ')}`);
+    }
+    const hasHidden = player.hand.some(t => !t.isRevealed);
+    if (player.isEliminated && hasHidden) problems.push(`${player.id} is eliminated but has hidden tiles`);
+    if (!player.isEliminated && !hasHidden) problems.push(`${player.id} has no hidden tiles but is not eliminated`);
+  }
+
+  if (state.colorOrder.join() !== tileSet.colors.join()) {
+    problems.push(`Hands are ordered ${state.colorOrder.join(', ')}, the tile set ${tileSet.colors.join(', ')}`);
+  }
+
+  // Whose turn it is, and what the phase allows
+  const current = state.players.find(p => p.id === state.currentTurnPlayerId);
+  if (!current) problems.push(`The current player ${state.currentTurnPlayerId} is not at the table`);
+  else if (current.isEliminated && !isOver) problems.push(`The current player ${current.id} is eliminated`);
+  if (state.drawnTile && (state.phase === GamePhase.SETUP || state.phase === GamePhase.DRAW || isOver)) {
+    problems.push(`A drawn tile is pending in the ${state.phase} phase`);
+  }
+  if (state.phase === GamePhase.REVEAL_OWN && (state.drawnTile || state.pool.length)) {
+    problems.push('An own tile is due for a wrong guess although there is a tile to reveal instead');
+  }
+
+  // One winner, the last player standing, exactly when the game is over
+  const standing = state.players.filter(p => !p.isEliminated);
+  if (isOver) {
+    if (!state.winnerId) problems.push('The game is over without a winner');
+    else if (standing.length !== 1 || standing[0].id !== state.winnerId) {
+      problems.push(`The winner ${state.winnerId} is not the one player left standing`);
+    }
+  } else {
+    if (state.winnerId) problems.push(`${state.winnerId} won but the game is not over`);
+    if (standing.length < 2) problems.push(`Only ${standing.length} player(s) left but the game is not over`);
+  }
+
+  return problems;
+};
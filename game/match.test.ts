@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MatchState } from '../types';
+import { createMatch, getMatchWinnerId, getNextFirstPlayerIndex, getPlacePoints, getStandings, isMatchOver } from './match';
+
+const withResults = (length: number, ...results: string[][]): MatchState => ({ ...createMatch(length), results });
+
+test('places score from nothing for last upwards', () => {
+  assert.deepEqual([0, 1, 2].map(place => getPlacePoints(place, 3)), [2, 1, 0]);
+  assert.deepEqual([0, 1].map(place => getPlacePoints(place, 2)), [1, 0]);
+});
+
+test('the first turn moves one seat along each game', () => {
+  assert.equal(getNextFirstPlayerIndex(undefined, 3), 1);
+  assert.equal(getNextFirstPlayerIndex(1, 3), 2);
+  assert.equal(getNextFirstPlayerIndex(2, 3), 0);
+});
+
+test('standings add up points, with wins breaking ties', () => {
+  const match = withResults(5, ['p-0', 'p-1', 'p-2'], ['p-2', 'p-1', 'p-0'], ['p-1', 'p-2', 'p-0']);
+  assert.deepEqual(getStandings(match, 3), [
+    { playerId: 'p-1', points: 4, wins: 1 },
+    { playerId: 'p-2', points: 3, wins: 1 },
+    { playerId: 'p-0', points: 2, wins: 1 },
+  ]);
+
+  // Two points each: the seat that never won comes last
+  const level = withResults(3, ['p-0', 'p-1', 'p-2'], ['p-2', 'p-1', 'p-0']);
+  assert.deepEqual(getStandings(level, 3).map(s => [s.playerId, s.points, s.wins]), [
+    ['p-0', 2, 1],
+    ['p-2', 2, 1],
+    ['p-1', 2, 0],
+  ]);
+});
+
+test('a best of three ends early once the leader cannot be caught', () => {
+  const one = withResults(3, ['p-0', 'p-1']);
+  assert.ok(!isMatchOver(one, 2));
+  assert.equal(getMatchWinnerId(one, 2), null);
+
+  const two = withResults(3, ['p-0', 'p-1'], ['p-0', 'p-1']);
+  assert.ok(isMatchOver(two, 2));
+  assert.equal(getMatchWinnerId(two, 2), 'p-0');
+
+  const split = withResults(3, ['p-0', 'p-1'], ['p-1', 'p-0']);
+  assert.ok(!isMatchOver(split, 2));
+});
+
+test('a match that ends level on points and wins has no winner', () => {
+  const match = withResults(2, ['p-0', 'p-1'], ['p-1', 'p-0']);
+  assert.ok(isMatchOver(match, 2));
+  assert.equal(getMatchWinnerId(match, 2), null);
+});
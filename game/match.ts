@@ -0,0 +1,50 @@
+import { MatchState } from '../types';
+
+// Best-of-N matches: the same seats play up to `length` games, the first turn moves one
+// seat along each game, and every game scores points by finishing position.
+
+export interface MatchStanding {
+  playerId: string;
+  points: number;
+  wins: number;
+}
+
+// Last place scores nothing and each place above it one point more
+export const getPlacePoints = (place: number, playerCount: number) => playerCount - 1 - place;
+
+export const createMatch = (length: number): MatchState => ({ length, results: [] });
+
+// The seat after the one that went first last game
+export const getNextFirstPlayerIndex = (previous: number | undefined, playerCount: number) =>
+  ((previous ?? 0) + 1) % playerCount;
+
+// Seats ordered by points, with game wins breaking ties
+export const getStandings = (match: MatchState, playerCount: number): MatchStanding[] => {
+  const standings = Array.from({ length: playerCount }, (_, i) => ({ playerId: `p-${i}`, points: 0, wins: 0 }));
+
+  for (const order of match.results) {
+    order.forEach((playerId, place) => {
+      const standing = standings.find(s => s.playerId === playerId);
+      if (!standing) return;
+      standing.points += getPlacePoints(place, playerCount);
+      if (place === 0) standing.wins++;
+    });
+  }
+
+  return standings.sort((a, b) => b.points - a.points || b.wins - a.wins);
+};
+
+// Over once every game is played, or as soon as nobody can catch the leader
+export const isMatchOver = (match: MatchState, playerCount: number) => {
+  if (match.results.length >= match.length) return true;
+  const [leader, runnerUp] = getStandings(match, playerCount);
+  const pointsLeft = (match.length - match.results.length) * getPlacePoints(0, playerCount);
+  return leader.points - runnerUp.points > pointsLeft;
+};
+
+// The match winner once it is over, or null while it is running or if it ends level
+export const getMatchWinnerId = (match: MatchState, playerCount: number): string | null => {
+  if (!isMatchOver(match, playerCount)) return null;
+  const [leader, runnerUp] = getStandings(match, playerCount);
+  return leader.points === runnerUp.points && leader.wins === runnerUp.wins ? null : leader.playerId;
+};
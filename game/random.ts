@@ -0,0 +1,40 @@
+// Seeded pseudo-random numbers so that a game can be replayed from its seed.
+
+export type Random = () => number;
+
+export const MAX_SEED = 0xffffffff;
+
+// A seeded generator that counts its draws, so it can be resumed later
+export interface SeededRandom {
+  (): number;
+  calls: number;
+}
+
+// mulberry32: small, fast and good enough for shuffling tiles.
+// `skip` fast-forwards past numbers that were already drawn before a save.
+export const createRandom = (seed: number, skip = 0): SeededRandom => {
+  let a = seed >>> 0;
+  const next = (() => {
+    next.calls++;
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }) as SeededRandom;
+  next.calls = 0;
+
+  for (let i = 0; i < skip; i++) next();
+  return next;
+};
+
+export const generateSeed = () => Math.floor(Math.random() * MAX_SEED);
+
+export const shuffle = <T,>(array: T[], random: Random): T[] => {
+  const newArray = [...array];
+  for (let i = newArray.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [newArray[i], newArray[j]] = [newArray[j], newArray[i]];
+  }
+  return newArray;
+};
@@ -0,0 +1,29 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { GamePhase } from '../types';
+import { formatRecord, parseRecord, replayRecord } from './record';
+
+// Two hands of four from eight tiles, so the pool is empty from the start
+const EMPTY_POOL_RECORD = `DaVinciCode 1
+Seed 1
+Timer 0
+Tiles max:3 colors:BW jokers:0
+Seat P0 human 🐶 Alice
+Seat P1 human 🐱 Bob
+EmptyPool reveal
+Hand P0 B0 W1 B2 W3
+Hand P1 W0 B1 W2 B3
+Pool
+Moves
+1 P0 draw
+1 P0 guess P1 0 1 miss
+1 P0 reveal 0
+`;
+
+test('an empty-pool miss survives a record round trip', () => {
+  const record = parseRecord(EMPTY_POOL_RECORD);
+  const states = replayRecord(record);
+  assert.equal(states[2].phase, GamePhase.REVEAL_OWN);
+  assert.equal(formatRecord(record), EMPTY_POOL_RECORD);
+  assert.deepEqual(parseRecord(formatRecord(record)).actions, record.actions);
+});
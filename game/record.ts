@@ -0,0 +1,407 @@
+import {
+  GameRecord,
+  GameState,
+  GameAction,
+  ActionType,
+  GameConfig,
+  GamePhase,
+  GameEventType,
+  BotDifficulty,
+  ClockConfig,
+  PlayerSetupConfig,
+  Tile,
+  TileColor,
+  TileSet,
+  TimeoutPolicy,
+} from '../types';
+import { createInitialTiles, sortHand, JOKER_VALUE, CLASSIC_TILE_SET, COLOR_LETTERS } from '../constants';
+import { applyAction, getCurrentPlayer, startJokerSetup } from './engine';
+
+// Plain-text game record. One fact per line, seats written P0, P1..., tiles as a color
+// letter and value (B7, W11, R3) with "-" for a Joker. Hand positions are counted from 0 on
+// the left. Example:
+//
+//   DaVinciCode 1
+//   Seed 12345
+//   Timer 60
+//   Clock bank:300 increment:5   (chess clock instead of the turn timer; left out when off)
+//   Timeout eliminate            (auto_play, lose_turn or eliminate; auto_play when left out)
+//   Tiles max:11 colors:BW jokers:2 hand:4   (hand is left out for the default size)
+//   Seat P0 human 🐶 Alice
+//   Seat P1 bot:EXPERT 🐱 Bot 1
+//   First P1                     (seat that takes the first turn; P0 when left out)
+//   EmptyPool reveal             (or "free": whether a wrong guess with no drawn tile costs a tile)
+//   Setup jokers                 (dealt Jokers are placed before the first draw; see the moves)
+//   Hand P0 B2 W5 B-@6.2 W9      (a Joker's exact sort value follows the @)
+//   Hand P1 B0 W3 W7 B10
+//   Pool W4 B8 ...               (drawn from the right)
+//   Moves
+//   1 P0 joker B- 0              (setup: P0 puts the dealt Joker at position 0)
+//   1 P0 end                     (setup: P0 is done, the next seat holding a Joker places it)
+//   1 P0 draw W6
+//   1 P0 joker B- 2              (move the Joker to position 2)
+//   1 P0 guess P1 1 3 hit        (seat, tile position, value, result)
+//   1 P0 continue
+//   1 P0 guess P1 2 6 miss
+//   1 P0 end
+//   9 P1 reveal 3                (empty pool, wrong guess: P1 reveals their own tile at position 3)
+//   12 P0 timeout lose_turn      (P0's time ran out, settled by the policy named)
+//
+// Lines starting with # and blank lines are ignored. Records from before tile sets were
+// configurable have "Jokers on" or "Jokers off" instead of a Tiles line, records without
+// an EmptyPool line were played with free guesses once the pool ran out, and records
+// without a Setup line start straight at the first draw.
+
+export const RECORD_VERSION = 1;
+export const RECORD_FILE_EXTENSION = '.dvc';
+
+const seatLabel = (playerId: string) => `P${playerId.replace('p-', '')}`;
+const seatId = (label: string) => `p-${label.replace(/^P/, '')}`;
+
+const valueLabel = (value: number) => (value === JOKER_VALUE ? '-' : String(value));
+
+const tileToken = (tile: Tile) => `${COLOR_LETTERS[tile.color]}${valueLabel(tile.value)}`;
+
+const colorFromLetter = (letter: string): TileColor | undefined =>
+  Object.values(TileColor).find(color => COLOR_LETTERS[color] === letter);
+
+// Same ids as createInitialTiles
+const tileIdFromToken = (token: string): string => {
+  const match = /^([A-Z])(-|\d+)$/.exec(token);
+  if (!match || !colorFromLetter(match[1])) throw new Error(`Unknown tile "${token}"`);
+  const color = match[1].toLowerCase();
+  return match[2] === '-' ? `${color}-joker` : `${color}-${match[2]}`;
+};
+
+const formatTileSet = ({ maxNumber, colors, jokerCount, handSize }: TileSet) =>
+  [
+    `Tiles max:${maxNumber}`,
+    `colors:${colors.map(c => COLOR_LETTERS[c]).join('')}`,
+    `jokers:${jokerCount}`,
+    ...(handSize ? [`hand:${handSize}`] : []),
+  ].join(' ');
+
+const parseTileSet = (fields: string[]): TileSet => {
+  const entries = new Map(fields.map(field => field.split(':') as [string, string]));
+  const maxNumber = Number(entries.get('max'));
+  const colors = [...(entries.get('colors') ?? '')].map(colorFromLetter);
+  const jokerCount = Number(entries.get('jokers') ?? 0);
+  const handSize = entries.has('hand') ? Number(entries.get('hand')) : undefined;
+
+  if (!Number.isInteger(maxNumber) || maxNumber < 0) throw new Error('Tiles needs a max number');
+  if (colors.length < 2 || colors.some(c => !c) || new Set(colors).size !== colors.length) {
+    throw new Error('Tiles needs two or more different colors');
+  }
+  if (!Number.isInteger(jokerCount) || jokerCount < 0 || jokerCount > colors.length) throw new Error('Invalid Joker count');
+  if (handSize !== undefined && (!Number.isInteger(handSize) || handSize < 1)) throw new Error('Invalid hand size');
+  return { maxNumber, colors: colors as TileColor[], jokerCount, ...(handSize ? { handSize } : {}) };
+};
+
+const parseValue = (token: string): number => {
+  if (token === '-') return JOKER_VALUE;
+  if (!/^\d+$/.test(token)) throw new Error(`Invalid value "${token}"`);
+  return Number(token);
+};
+
+const parseTimeoutPolicy = (token: string): TimeoutPolicy => {
+  const policy = Object.values(TimeoutPolicy).find(p => p.toLowerCase() === token);
+  if (!policy) throw new Error(`Unknown timeout policy "${token}"`);
+  return policy;
+};
+
+// Single record line for `action`, played from `state`
+export const formatMove = (state: GameState, action: GameAction, next: GameState): string => {
+  const prefix = `${state.moveNumber} ${seatLabel(state.currentTurnPlayerId)}`;
+
+  switch (action.type) {
+    case ActionType.DRAW:
+      return next.drawnTile ? `${prefix} draw ${tileToken(next.drawnTile)}` : `${prefix} draw`;
+    case ActionType.GUESS: {
+      const target = state.players.find(p => p.id === action.targetPlayerId);
+      const index = target?.hand.findIndex(t => t.id === action.tileId) ?? -1;
+      // A miss with the pool empty leaves the guesser to reveal a tile, not at the turn's end
+      const made = next.events.find(e => e.seq > state.events.length && e.type === GameEventType.GUESS_MADE);
+      const result = made?.type === GameEventType.GUESS_MADE && made.isCorrect ? 'hit' : 'miss';
+      return `${prefix} guess ${seatLabel(action.targetPlayerId)} ${index} ${valueLabel(action.value)} ${result}`;
+    }
+    case ActionType.CONTINUE:
+      return `${prefix} continue`;
+    case ActionType.END_TURN:
+      return `${prefix} end`;
+    case ActionType.REVEAL_OWN: {
+      const index = getCurrentPlayer(state)?.hand.findIndex(t => t.id === action.tileId) ?? -1;
+      return `${prefix} reveal ${index}`;
+    }
+    case ActionType.TIME_OUT:
+      return `${prefix} timeout ${action.policy.toLowerCase()}`;
+    case ActionType.PLACE_JOKER: {
+      const joker = state.drawnTile?.id === action.tileId
+        ? state.drawnTile
+        : getCurrentPlayer(state)?.hand.find(t => t.id === action.tileId);
+      return `${prefix} joker ${joker ? tileToken(joker) : '?'} ${action.position}`;
+    }
+    default:
+      return prefix;
+  }
+};
+
+const parseMove = (state: GameState, verb: string | undefined, args: string[]): GameAction => {
+  switch (verb) {
+    case 'draw':
+      return { type: ActionType.DRAW };
+    case 'continue':
+      return { type: ActionType.CONTINUE };
+    case 'end':
+      return { type: ActionType.END_TURN };
+    case 'reveal': {
+      const tile = getCurrentPlayer(state)?.hand[Number(args[0])];
+      if (!tile) throw new Error(`No tile ${args[0]} in the player's own hand`);
+      return { type: ActionType.REVEAL_OWN, tileId: tile.id };
+    }
+    case 'joker':
+      return { type: ActionType.PLACE_JOKER, tileId: tileIdFromToken(args[0] ?? ''), position: Number(args[1]) };
+    case 'timeout':
+      return { type: ActionType.TIME_OUT, policy: parseTimeoutPolicy(args[0] ?? '') };
+    case 'guess': {
+      const targetPlayerId = seatId(args[0] ?? '');
+      const tile = state.players.find(p => p.id === targetPlayerId)?.hand[Number(args[1])];
+      if (!tile) throw new Error(`No tile ${args[1]} in ${args[0]}'s hand`);
+      return { type: ActionType.GUESS, targetPlayerId, tileId: tile.id, value: parseValue(args[2] ?? '') };
+    }
+    default:
+      throw new Error(`Unknown move "${verb}"`);
+  }
+};
+
+// Every state of the game: index 0 is the deal, index i follows the i-th action
+export const replayRecord = (record: GameRecord): GameState[] => {
+  const states = [record.initialState];
+  for (const action of record.actions) {
+    states.push(applyAction(states[states.length - 1], action));
+  }
+  return states;
+};
+
+export const formatRecord = (record: GameRecord): string => {
+  const { config, initialState } = record;
+  const lines = [
+    `DaVinciCode ${RECORD_VERSION}`,
+    `Seed ${config.seed ?? ''}`.trim(),
+    `Timer ${config.timerSeconds}`,
+    formatTileSet(config.tileSet),
+  ];
+  if (config.clock) lines.push(`Clock bank:${config.clock.bankSeconds} increment:${config.clock.incrementSeconds}`);
+  if (config.timeoutPolicy) lines.push(`Timeout ${config.timeoutPolicy.toLowerCase()}`);
+
+  config.playerDetails.forEach((details, i) => {
+    const kind = details.isBot ? `bot:${details.difficulty ?? BotDifficulty.CASUAL}` : 'human';
+    lines.push(`Seat P${i} ${kind} ${details.avatar} ${details.name}`);
+  });
+  if (config.firstPlayerIndex) lines.push(`First P${config.firstPlayerIndex}`);
+  lines.push(`EmptyPool ${config.freeEmptyPoolGuesses ? 'free' : 'reveal'}`);
+  if (initialState.phase === GamePhase.SETUP) lines.push('Setup jokers');
+
+  initialState.players.forEach(p => {
+    const tokens = p.hand.map(t => (t.isJoker ? `${tileToken(t)}@${t.sortValue}` : tileToken(t)));
+    lines.push(`Hand ${seatLabel(p.id)} ${tokens.join(' ')}`);
+  });
+  lines.push(`Pool ${initialState.pool.map(tileToken).join(' ')}`.trim());
+
+  lines.push('Moves');
+  const states = replayRecord(record);
+  record.actions.forEach((action, i) => lines.push(formatMove(states[i], action, states[i + 1])));
+
+  return lines.join('\n') + '\n';
+};
+
+// Parses and checks a record by replaying it. Throws an Error naming the offending line.
+export const parseRecord = (text: string): GameRecord => {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line, i) => ({ line: line.trim(), number: i + 1 }))
+    .filter(({ line }) => line !== '' && !line.startsWith('#'));
+
+  let seed: number | undefined;
+  let timerSeconds = 0;
+  let tileSet = CLASSIC_TILE_SET;
+  let firstPlayerIndex: number | undefined;
+  let freeEmptyPoolGuesses = true;
+  let hasJokerSetup = false;
+  let clock: ClockConfig | undefined;
+  let timeoutPolicy: TimeoutPolicy | undefined;
+  const playerDetails: PlayerSetupConfig[] = [];
+  const hands: string[][] = [];
+  let poolTokens: string[] = [];
+  let movesStart = lines.length;
+
+  const fail = (number: number, msg: string): never => {
+    throw new Error(`Line ${number}: ${msg}`);
+  };
+
+  if (lines[0]?.line !== `DaVinciCode ${RECORD_VERSION}`) {
+    fail(lines[0]?.number ?? 1, 'Not a Da Vinci Code record');
+  }
+
+  for (let i = 1; i < lines.length; i++) {
+    const { line, number } = lines[i];
+    const [key, ...rest] = line.split(/\s+/);
+
+    if (key === 'Moves') {
+      movesStart = i + 1;
+      break;
+    }
+
+    switch (key) {
+      case 'Seed':
+        seed = rest.length ? Number(rest[0]) : undefined;
+        break;
+      case 'Timer':
+        timerSeconds = Number(rest[0]) || 0;
+        break;
+      case 'Tiles':
+        try {
+          tileSet = parseTileSet(rest);
+        } catch (e) {
+          fail(number, (e as Error).message);
+        }
+        break;
+      case 'Clock': {
+        const fields = Object.fromEntries(rest.map(part => part.split(':')));
+        clock = { bankSeconds: Number(fields.bank), incrementSeconds: Number(fields.increment) };
+        if (!(clock.bankSeconds > 0) || !(clock.incrementSeconds >= 0)) fail(number, 'Clock needs a bank and an increment in seconds');
+        break;
+      }
+      case 'Timeout':
+        try {
+          timeoutPolicy = parseTimeoutPolicy(rest[0] ?? '');
+        } catch (e) {
+          fail(number, (e as Error).message);
+        }
+        break;
+      case 'Jokers':
+        tileSet = { ...tileSet, jokerCount: rest[0] === 'on' ? 2 : 0 };
+        break;
+      case 'Seat': {
+        const [, kind, avatar, ...name] = rest;
+        if (!kind || !avatar) fail(number, 'Seat needs a kind and an avatar');
+        const isBot = kind.startsWith('bot');
+        const difficulty = isBot ? (kind.split(':')[1] as BotDifficulty) ?? BotDifficulty.CASUAL : undefined;
+        if (difficulty && !Object.values(BotDifficulty).includes(difficulty)) fail(number, `Unknown difficulty "${difficulty}"`);
+        playerDetails.push({ name: name.join(' '), avatar, isBot, difficulty });
+        break;
+      }
+      case 'First':
+        if (!/^P\d+$/.test(rest[0] ?? '')) fail(number, `Unknown seat "${rest[0] ?? ''}"`);
+        firstPlayerIndex = Number(rest[0].slice(1));
+        break;
+      case 'EmptyPool':
+        if (rest[0] !== 'reveal' && rest[0] !== 'free') fail(number, 'EmptyPool must be "reveal" or "free"');
+        freeEmptyPoolGuesses = rest[0] === 'free';
+        break;
+      case 'Setup':
+        if (rest[0] !== 'jokers') fail(number, 'Setup must be "jokers"');
+        hasJokerSetup = true;
+        break;
+      case 'Hand':
+        hands.push(rest.slice(1));
+        break;
+      case 'Pool':
+        poolTokens = rest;
+        break;
+      default:
+        fail(number, `Unknown entry "${key}"`);
+    }
+  }
+
+  if (playerDetails.length < 2 || hands.length !== playerDetails.length) {
+    fail(lines[movesStart - 1]?.number ?? 1, 'Every seat needs exactly one hand');
+  }
+  if (firstPlayerIndex !== undefined && firstPlayerIndex >= playerDetails.length) {
+    fail(lines[movesStart - 1]?.number ?? 1, `There is no seat P${firstPlayerIndex}`);
+  }
+
+  const config: GameConfig = {
+    playerCount: playerDetails.length,
+    botCount: playerDetails.filter(p => p.isBot).length,
+    timerSeconds,
+    tileSet,
+    playerDetails,
+    seed,
+    firstPlayerIndex,
+    freeEmptyPoolGuesses,
+    clock,
+    timeoutPolicy,
+  };
+
+  // Rebuild the deal from the tile tokens, checking each tile appears exactly once
+  const deck = new Map(createInitialTiles(tileSet).map(t => [t.id, t]));
+  const takeTile = (token: string, ownerId: string | null): Tile => {
+    const [tilePart, sortValue] = token.split('@');
+    const id = tileIdFromToken(tilePart);
+    const tile = deck.get(id);
+    if (!tile) throw new Error(`Tile "${tilePart}" is missing or used twice`);
+    deck.delete(id);
+    return sortValue === undefined ? { ...tile, ownerId } : { ...tile, ownerId, sortValue: Number(sortValue) };
+  };
+
+  let initialState: GameState;
+  try {
+    const players = playerDetails.map((details, i) => ({
+      id: `p-${i}`,
+      name: details.name,
+      isBot: details.isBot,
+      difficulty: details.difficulty,
+      hand: sortHand(hands[i].map(token => takeTile(token, `p-${i}`)), tileSet.colors),
+      isEliminated: false,
+      avatar: details.avatar,
+    }));
+    const firstPlayerId = players[firstPlayerIndex ?? 0].id;
+    const dealt: GameState = {
+      players,
+      currentTurnPlayerId: firstPlayerId,
+      drawnTile: null,
+      pool: poolTokens.map(token => takeTile(token, null)),
+      phase: GamePhase.DRAW,
+      winnerId: null,
+      events: [],
+      moveNumber: 1,
+      wrongGuesses: [],
+      emptyPoolPenalty: !freeEmptyPoolGuesses,
+      firstPlayerId,
+      colorOrder: tileSet.colors,
+    };
+    initialState = hasJokerSetup ? startJokerSetup(dealt) : dealt;
+  } catch (e) {
+    return fail(lines[movesStart - 1]?.number ?? 1, (e as Error).message);
+  }
+
+  if (deck.size > 0) {
+    fail(lines[movesStart - 1]?.number ?? 1, `Deal is missing ${[...deck.keys()].join(', ')}`);
+  }
+
+  const actions: GameAction[] = [];
+  let state = initialState;
+
+  for (const { line, number } of lines.slice(movesStart)) {
+    const [, seat, verb, ...args] = line.split(/\s+/);
+    if (seatId(seat ?? '') !== state.currentTurnPlayerId) fail(number, `It is not ${seat}'s turn`);
+
+    let action: GameAction;
+    try {
+      action = parseMove(state, verb, args);
+    } catch (e) {
+      return fail(number, (e as Error).message);
+    }
+
+    const next = applyAction(state, action);
+    if (next === state) fail(number, 'Illegal move');
+    if (formatMove(state, action, next).split(/\s+/).join(' ') !== line.split(/\s+/).join(' ')) {
+      fail(number, 'Move does not match the replayed game');
+    }
+
+    actions.push(action);
+    state = next;
+  }
+
+  return { config, initialState, actions };
+};
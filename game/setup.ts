@@ -0,0 +1,13 @@
+import { GameConfig, GameState } from '../types';
+import { createInitialTiles } from '../constants';
+import { createGame } from './engine';
+import { Random, shuffle } from './random';
+
+// Shuffles and deals a new game. Shared by the local app and the game server so the
+// same seed always produces the same deal.
+export const dealGame = (config: GameConfig, random: Random): GameState => {
+  // Fresh tile ids are numbered in shuffled order, so an id says nothing about the tile's
+  // value and can be shown to every player as is
+  const deck = shuffle(createInitialTiles(config.tileSet), random).map((tile, i) => ({ ...tile, id: `t-${i}` }));
+  return createGame(config, deck);
+};
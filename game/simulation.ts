@@ -0,0 +1,136 @@
+import { BotDifficulty, GameConfig, GamePhase, GameState, TileSet } from '../types';
+import { applyAction } from './engine';
+import { dealGame } from './setup';
+import { chooseBotMove, createMockModel } from './strategy';
+import { getGameStats } from './stats';
+import { createRandom } from './random';
+
+// Headless bot-vs-bot games for weighing up bots and rule variants. Each game is dealt and
+// played by the same rule and bot code the app runs, from one seed, so a game that looks odd
+// can be replayed at the table by starting it with that seed and the same seats.
+
+export interface SimulationOptions {
+  bots: BotDifficulty[]; // One per seat
+  tileSet: TileSet;
+  firstSeed: number;
+  games: number; // Seeds firstSeed, firstSeed + 1, ...
+  freeEmptyPoolGuesses?: boolean;
+}
+
+export interface SimulatedGame {
+  seed: number;
+  state: GameState;
+  actions: number;
+  finished: boolean;
+}
+
+export interface StrategyResult {
+  difficulty: BotDifficulty;
+  seats: number; // Seats it played, summed over games
+  wins: number;
+  winRate: number; // Wins per seat played
+  guesses: number;
+  correctGuesses: number;
+  guessAccuracy: number;
+}
+
+export interface SimulationReport {
+  games: number;
+  unfinished: number; // Cut off at MAX_ACTIONS, left out of every other number
+  averageTurns: number;
+  averageActions: number;
+  strategies: StrategyResult[];
+  seatWins: number[]; // By seat index
+  firstSeatWinRate: number; // How often whoever took the first turn won
+  fairWinRate: number; // 1 / players, what every seat would win with no advantage
+}
+
+// A game still going after this many actions is assumed stuck
+const MAX_ACTIONS = 5000;
+
+// The first turn moves one seat along each game, so no strategy always starts
+const createConfig = (options: SimulationOptions, seed: number, index: number): GameConfig => ({
+  playerCount: options.bots.length,
+  timerSeconds: 0,
+  botCount: options.bots.length,
+  playerDetails: options.bots.map((difficulty, i) => ({ name: `Bot ${i + 1}`, avatar: '🤖', isBot: true, difficulty })),
+  tileSet: options.tileSet,
+  seed,
+  firstPlayerIndex: index % options.bots.length,
+  freeEmptyPoolGuesses: options.freeEmptyPoolGuesses,
+});
+
+// Gemini seats play against the offline mock model: thousands of games are no job for an API
+export const simulateGame = async (config: GameConfig): Promise<SimulatedGame> => {
+  const seed = config.seed ?? 0;
+  const random = createRandom(seed);
+  const model = createMockModel(random);
+  let state = dealGame(config, random);
+  let actions = 0;
+
+  while (state.phase !== GamePhase.GAME_OVER && actions < MAX_ACTIONS) {
+    const move = await chooseBotMove(state, config.tileSet, model, random);
+    const next = applyAction(state, move.action);
+    if (next === state) break; // An illegal move would repeat forever
+    state = next;
+    actions++;
+  }
+
+  return { seed, state, actions, finished: state.phase === GamePhase.GAME_OVER };
+};
+
+export const runSimulation = async (
+  options: SimulationOptions,
+  onGame?: (game: SimulatedGame, index: number) => void
+): Promise<SimulationReport> => {
+  const playerCount = options.bots.length;
+  const results = new Map<BotDifficulty, StrategyResult>();
+  for (const difficulty of options.bots) {
+    results.set(difficulty, { difficulty, seats: 0, wins: 0, winRate: 0, guesses: 0, correctGuesses: 0, guessAccuracy: 0 });
+  }
+  const seatWins = options.bots.map(() => 0);
+  let finished = 0;
+  let turns = 0;
+  let actions = 0;
+  let firstSeatWins = 0;
+
+  for (let i = 0; i < options.games; i++) {
+    const config = createConfig(options, options.firstSeed + i, i);
+    const game = await simulateGame(config);
+    onGame?.(game, i);
+    if (!game.finished) continue;
+
+    finished++;
+    turns += game.state.moveNumber;
+    actions += game.actions;
+    const stats = getGameStats(game.state);
+    game.state.players.forEach((player, seat) => {
+      const result = results.get(options.bots[seat])!;
+      const line = stats[player.id];
+      result.seats++;
+      result.guesses += line.guesses;
+      result.correctGuesses += line.correctGuesses;
+      if (line.won) {
+        result.wins++;
+        seatWins[seat]++;
+        if (player.id === game.state.firstPlayerId) firstSeatWins++;
+      }
+    });
+  }
+
+  const ratio = (a: number, b: number) => (b ? a / b : 0);
+  return {
+    games: options.games,
+    unfinished: options.games - finished,
+    averageTurns: ratio(turns, finished),
+    averageActions: ratio(actions, finished),
+    strategies: [...results.values()].map(r => ({
+      ...r,
+      winRate: ratio(r.wins, r.seats),
+      guessAccuracy: ratio(r.correctGuesses, r.guesses),
+    })),
+    seatWins,
+    firstSeatWinRate: ratio(firstSeatWins, finished),
+    fairWinRate: 1 / playerCount,
+  };
+};
@@ -0,0 +1,46 @@
+import { GameState, GameEventType } from '../types';
+
+// Per-seat numbers for one finished game, read off its event stream
+
+export interface GameStatLine {
+  won: boolean;
+  guesses: number;
+  correctGuesses: number;
+  eliminationsCaused: number;
+  turnsPlayed: number;
+}
+
+export const getGameStats = (state: GameState): Record<string, GameStatLine> => {
+  const lines: Record<string, GameStatLine> = {};
+  const turns: Record<string, Set<number>> = {};
+
+  for (const player of state.players) {
+    lines[player.id] = { won: player.id === state.winnerId, guesses: 0, correctGuesses: 0, eliminationsCaused: 0, turnsPlayed: 0 };
+    turns[player.id] = new Set();
+  }
+
+  for (const event of state.events) {
+    const line = lines[event.actorId];
+    if (!line) continue;
+    turns[event.actorId].add(event.moveNumber);
+
+    if (event.type === GameEventType.GUESS_MADE) {
+      line.guesses++;
+      if (event.isCorrect) line.correctGuesses++;
+    } else if (event.type === GameEventType.PLAYER_ELIMINATED && event.targetId !== event.actorId) {
+      line.eliminationsCaused++;
+    }
+  }
+
+  for (const id of Object.keys(lines)) lines[id].turnsPlayed = turns[id].size;
+  return lines;
+};
+
+// Player ids from first place to last: the winner, then everyone else in reverse order of elimination
+export const getFinishingOrder = (state: GameState): string[] => {
+  const eliminated = state.events.flatMap(e => (e.type === GameEventType.PLAYER_ELIMINATED ? [e.targetId] : []));
+  const standing = state.players.map(p => p.id).filter(id => !eliminated.includes(id));
+  // The winner is the last one standing, ahead of anyone still in a game that was cut short
+  standing.sort((a, b) => Number(b === state.winnerId) - Number(a === state.winnerId));
+  return [...standing, ...eliminated.reverse()];
+};
@@ -0,0 +1,227 @@
+import { GameState, GameAction, ActionType, BotDifficulty, GamePhase, Tile, TileSet } from '../types';
+import { JOKER_VALUE, COLOR_LETTERS, COLOR_NAMES, describeTileSet, hasJokers } from '../constants';
+import { getCurrentPlayer, getLegalActions } from './engine';
+import { chooseBotAction } from './bot';
+import { getHandCandidates } from './deduction';
+import { getPlayerView } from './view';
+import { Random } from './random';
+
+// Bot strategies: given a seat's redacted view and its legal actions, pick one. Classic bots
+// answer at once; the language-model bot asks a model and checks its answer strictly,
+// falling back to classic play on anything invalid or slow.
+
+export interface BotMove {
+  action: GameAction;
+  reasoning?: string; // The bot's own explanation, shown at the table
+}
+
+export interface BotStrategy {
+  chooseMove: (view: GameState, legalActions: GameAction[], random: Random) => Promise<BotMove>;
+}
+
+// Text in, text out: Gemini online, or a mock for offline runs
+export interface BotModel {
+  complete: (prompt: string) => Promise<string>;
+}
+
+const MODEL_TIMEOUT_MS = 8000;
+const MAX_LISTED_GUESSES = 20;
+
+export const createClassicStrategy = (tileSet: TileSet): BotStrategy => ({
+  chooseMove: async (view, legalActions, random) => ({
+    action: chooseBotAction(view, tileSet, random) ?? legalActions[legalActions.length - 1],
+  }),
+});
+
+// --- Model prompt and answer ---
+
+const seatLabel = (playerId: string) => `P${playerId.replace('p-', '')}`;
+
+const sameAction = (a: GameAction, b: GameAction) => JSON.stringify(a) === JSON.stringify(b);
+
+// Actions are exchanged with the model as small JSON objects that name tiles by hand position
+const describeAction = (view: GameState, action: GameAction): object => {
+  switch (action.type) {
+    case ActionType.GUESS: {
+      const target = view.players.find(p => p.id === action.targetPlayerId);
+      const position = target?.hand.findIndex(t => t.id === action.tileId) ?? -1;
+      return { move: 'guess', player: seatLabel(action.targetPlayerId), position, value: action.value };
+    }
+    case ActionType.PLACE_JOKER: {
+      const drawn = action.tileId === view.drawnTile?.id;
+      const joker = drawn ? view.drawnTile : getCurrentPlayer(view)?.hand.find(t => t.id === action.tileId);
+      return { move: 'joker', drawn, color: joker ? COLOR_LETTERS[joker.color] : '?', position: action.position };
+    }
+    case ActionType.END_TURN:
+      return { move: 'end' };
+    case ActionType.REVEAL_OWN: {
+      const own = view.players.find(p => p.id === view.currentTurnPlayerId);
+      return { move: 'reveal', position: own?.hand.findIndex(t => t.id === action.tileId) ?? -1 };
+    }
+    default:
+      return { move: action.type.toLowerCase() };
+  }
+};
+
+const buildPrompt = (view: GameState, legalActions: GameAction[], tileSet: TileSet): string => {
+  const bot = getCurrentPlayer(view)!;
+  const tileText = (t: Tile, isOwn: boolean) =>
+    `${COLOR_LETTERS[t.color]}${!isOwn && !t.isRevealed ? '?' : t.value === JOKER_VALUE ? '-' : t.value}${t.isRevealed ? '(revealed)' : ''}`;
+
+  const hands = view.players.map(p => {
+    const label = p.id === bot.id ? `${seatLabel(p.id)} (you)` : seatLabel(p.id);
+    return `${label}${p.isEliminated ? ' out' : ''}: ${p.hand.map(t => tileText(t, p.id === bot.id)).join(' ')}`;
+  });
+  const drawn = view.drawnTile ? `Your drawn tile: ${tileText(view.drawnTile, true)}` : 'No drawn tile.';
+
+  // The likeliest guesses by public deduction, to save the model the arithmetic
+  const guesses = view.phase === GamePhase.GUESS
+    ? view.players
+        .filter(p => p.id !== bot.id && !p.isEliminated)
+        .flatMap(p => getHandCandidates(view, bot.id, p.id, tileSet).flatMap(({ tileId, candidates }) =>
+          candidates.map(c => ({
+            ...describeAction(view, { type: ActionType.GUESS, targetPlayerId: p.id, tileId, value: c.value }),
+            probability: Math.round(c.probability * 100) / 100,
+          }))
+        ))
+        .sort((a, b) => b.probability - a.probability)
+        .slice(0, MAX_LISTED_GUESSES)
+    : [];
+  const others = legalActions.filter(a => a.type !== ActionType.GUESS).map(a => describeAction(view, a));
+
+  const colors = tileSet.colors.map(c => `${COLOR_NAMES[c]} (${COLOR_LETTERS[c]})`);
+  return [
+    `You are playing Da Vinci Code with ${describeTileSet(tileSet)}. Colors: ${colors.join(', ')}; "-" is a Joker.`,
+    `Hands are sorted ascending, ties in the color order ${tileSet.colors.map(c => COLOR_LETTERS[c]).join(' < ')}; Jokers may sit anywhere.`,
+    'A correct guess reveals the tile and lets you guess again or end the turn with your drawn tile hidden.',
+    view.emptyPoolPenalty
+      ? 'A wrong guess reveals your drawn tile; with the pool empty you pick one of your own hidden tiles to reveal instead.'
+      : 'A wrong guess reveals your drawn tile; with the pool empty it costs nothing.',
+    'The last player with hidden tiles wins.',
+    ...(view.phase === GamePhase.SETUP
+      ? ['Before the first draw, place each Joker you were dealt anywhere in your hand (once each), then end.']
+      : []),
+    `Phase: ${view.phase}.`,
+    ...hands,
+    drawn,
+    `Guess values range 0-${tileSet.maxNumber}${hasJokers(tileSet) ? ` or ${JOKER_VALUE} for a Joker` : ''}. Positions count from 0 on the left.`,
+    ...(guesses.length ? ['Likeliest guesses:', ...guesses.map(g => JSON.stringify(g))] : []),
+    'Other moves:',
+    ...others.map(o => JSON.stringify(o)),
+    'Answer with one JSON object and nothing else:',
+    '{"move": ..., (move fields), "reasoning": "one short sentence"}',
+  ].join('\n');
+};
+
+// Key order does not matter when comparing the model's answer with a legal action
+const canonical = (value: object) =>
+  JSON.stringify(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)));
+
+// Reads the model's answer into one of the legal actions, or says why it cannot
+export const parseModelMove = (
+  text: string,
+  view: GameState,
+  legalActions: GameAction[]
+): { move: BotMove } | { error: string } => {
+  const json = /\{[\s\S]*\}/.exec(text)?.[0];
+  if (!json) return { error: 'no JSON object in the answer' };
+
+  let answer: unknown;
+  try {
+    answer = JSON.parse(json);
+  } catch {
+    return { error: 'the answer is not valid JSON' };
+  }
+  if (!answer || typeof answer !== 'object' || Array.isArray(answer)) return { error: 'the answer is not an object' };
+
+  const { reasoning, probability, ...fields } = answer as Record<string, unknown>;
+  const key = canonical(fields);
+  const action = legalActions.find(a => canonical(describeAction(view, a)) === key);
+  if (!action) return { error: `illegal move ${JSON.stringify(fields)}` };
+
+  return { move: { action, reasoning: typeof reasoning === 'string' ? reasoning.slice(0, 200) : undefined } };
+};
+
+const withTimeout = <T,>(promise: Promise<T>, ms: number): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`no answer within ${ms / 1000}s`)), ms);
+    promise.then(
+      value => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      error => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+
+export const createModelStrategy = (
+  model: BotModel,
+  fallback: BotStrategy,
+  tileSet: TileSet,
+  timeoutMs = MODEL_TIMEOUT_MS
+): BotStrategy => ({
+  chooseMove: async (view, legalActions, random) => {
+    // Drawing and a pending wrong guess leave no choice worth asking about
+    if (legalActions.length === 1) return { action: legalActions[0] };
+
+    let problem: string;
+    try {
+      const text = await withTimeout(model.complete(buildPrompt(view, legalActions, tileSet)), timeoutMs);
+      const parsed = parseModelMove(text, view, legalActions);
+      if ('move' in parsed) return parsed.move;
+      problem = parsed.error;
+    } catch (e) {
+      problem = (e as Error).message;
+    }
+
+    const move = await fallback.chooseMove(view, legalActions, random);
+    return { ...move, reasoning: `Model failed (${problem}); playing it safe.` };
+  },
+});
+
+// Offline stand-in for a model: picks one of the likeliest guesses listed in the prompt,
+// or else one of the other moves, and answers in the same JSON a model would
+export const createMockModel = (random: Random): BotModel => ({
+  complete: async prompt => {
+    const lines = prompt.split('\n');
+    const listed = (heading: string) => {
+      const start = lines.indexOf(heading);
+      if (start === -1) return [];
+      const end = lines.findIndex((line, i) => i > start && !line.startsWith('{'));
+      return lines.slice(start + 1, end === -1 ? undefined : end);
+    };
+
+    const guesses = listed('Likeliest guesses:').slice(0, 3);
+    const options = guesses.length ? guesses : listed('Other moves:');
+    const choice = JSON.parse(options[Math.floor(random() * options.length)]);
+    const reasoning = guesses.length
+      ? `A ${Math.round(choice.probability * 100)}% shot is worth taking.`
+      : `Going with ${choice.move}.`;
+    return JSON.stringify({ ...choice, reasoning });
+  },
+});
+
+// Strategy for a bot seat: Gemini seats ask `model`, every other level plays classic
+export const getBotStrategy = (difficulty: BotDifficulty | undefined, tileSet: TileSet, model: BotModel): BotStrategy => {
+  const classic = createClassicStrategy(tileSet);
+  return difficulty === BotDifficulty.GEMINI ? createModelStrategy(model, classic, tileSet) : classic;
+};
+
+// The move for whichever bot's turn it is, chosen from that seat's own view. The app, the
+// game server and the simulator all play bots through this.
+export const chooseBotMove = (state: GameState, tileSet: TileSet, model: BotModel, random: Random): Promise<BotMove> => {
+  const bot = getCurrentPlayer(state)!;
+  const view = getPlayerView(state, bot.id);
+  return getBotStrategy(bot.difficulty, tileSet, model).chooseMove(view, getLegalActions(view, tileSet), random);
+};
+
+// A legal move for the bot whose turn it is, for when choosing one failed outright: the same
+// last resort classic play uses
+export const getFallbackBotMove = (state: GameState, tileSet: TileSet, problem: string): BotMove => {
+  const view = getPlayerView(state, getCurrentPlayer(state)!.id);
+  const legalActions = getLegalActions(view, tileSet);
+  return { action: legalActions[legalActions.length - 1], reasoning: `Could not choose a move (${problem}); playing it safe.` };
+};
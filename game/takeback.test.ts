@@ -0,0 +1,61 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameConfig, GamePhase, GameState } from '../types';
+import { allowsTakebacks, findTakeback, getTakebacksLeft, TakebackPoint } from './takeback';
+
+// Only whose turn it was, the move number and the phase matter to findTakeback
+const point = (playerId: string, moveNumber: number, phase = GamePhase.GUESS): TakebackPoint => ({
+  state: { currentTurnPlayerId: playerId, moveNumber, phase } as GameState,
+  actionCount: 0,
+  clocks: {},
+  timeLeft: 0,
+});
+
+test('there is nothing to take back before the first move', () => {
+  assert.equal(findTakeback([], 'p-0', false), -1);
+  assert.equal(findTakeback([], 'p-0', true), -1);
+});
+
+test('a move goes back one point, a turn to the first point of that turn', () => {
+  const points = [point('p-0', 1, GamePhase.DRAW), point('p-0', 1), point('p-0', 1, GamePhase.RESOLVE)];
+  assert.equal(findTakeback(points, 'p-0', false), 2);
+  assert.equal(findTakeback(points, 'p-0', true), 0);
+});
+
+test('a whole turn stops at the previous turn and at the Joker setup', () => {
+  const points = [
+    point('p-0', 1, GamePhase.SETUP),
+    point('p-0', 1, GamePhase.DRAW),
+    point('p-0', 1),
+    point('p-0', 3, GamePhase.DRAW),
+    point('p-0', 3),
+  ];
+  assert.equal(findTakeback(points, 'p-0', true), 3);
+  assert.equal(findTakeback(points.slice(0, 3), 'p-0', true), 1);
+  assert.equal(findTakeback(points.slice(0, 1), 'p-0', true), 0);
+});
+
+test('bot moves in between can be undone, another human\'s cannot', () => {
+  // Bots leave no points, so P0's turn 3 follows straight on from turn 1 against a bot
+  const againstBot = [point('p-0', 1, GamePhase.DRAW), point('p-0', 3, GamePhase.DRAW)];
+  assert.equal(findTakeback(againstBot, 'p-0', false), 1);
+
+  const hotSeat = [point('p-0', 1, GamePhase.DRAW), point('p-1', 2, GamePhase.DRAW)];
+  assert.equal(findTakeback(hotSeat, 'p-0', false), -1);
+  assert.equal(findTakeback(hotSeat, 'p-0', true), -1);
+  assert.equal(findTakeback(hotSeat, 'p-1', true), 1);
+});
+
+test('takebacks are allowed against bots and at casual tables, up to the limit', () => {
+  const config = (playerCount: number, botCount: number, extra: Partial<GameConfig> = {}) =>
+    ({ playerCount, botCount, ...extra }) as GameConfig;
+
+  assert.ok(allowsTakebacks(config(3, 2)));
+  assert.ok(!allowsTakebacks(config(3, 1)));
+  assert.ok(allowsTakebacks(config(3, 1, { casual: true })));
+
+  assert.equal(getTakebacksLeft(config(2, 1), 5), Infinity);
+  assert.equal(getTakebacksLeft(config(2, 1, { takebackLimit: 3 }), 1), 2);
+  assert.equal(getTakebacksLeft(config(2, 1, { takebackLimit: 3 }), 4), 0);
+  assert.equal(getTakebacksLeft(config(2, 0), 0), 0);
+});
@@ -0,0 +1,44 @@
+import { GameConfig, GamePhase, GameState } from '../types';
+
+// Takebacks for casual and practice games. The app keeps the table as it was before every
+// human action; a takeback goes back to one of those states, so whatever the undone moves
+// revealed is gone from every seat's view, and bots, which only ever play from their view,
+// cannot make use of it. The game record keeps only the moves that stood; takebacks show in
+// the game log. A takeback never undoes another human's move, so at a pass-and-play table
+// each seat can only take back what it played since the last human before it.
+
+export interface TakebackPoint {
+  state: GameState; // The table just before a human action; that human is its current player
+  actionCount: number; // Actions in the game record at that moment
+  clocks: Record<string, number>; // Chess clock banks at that moment
+  timeLeft: number; // Turn timer at that moment
+}
+
+// The history needs to reach no further back than a player's previous turn
+export const MAX_TAKEBACK_POINTS = 100;
+
+// Games against bots allow takebacks; a pass-and-play table only when it is marked casual
+export const allowsTakebacks = (config: GameConfig) => config.playerCount - config.botCount <= 1 || !!config.casual;
+
+export const getTakebacksLeft = (config: GameConfig, used: number): number => {
+  if (!allowsTakebacks(config)) return 0;
+  return config.takebackLimit === undefined ? Infinity : Math.max(0, config.takebackLimit - used);
+};
+
+// Joker setup and the first turn share a move number, so setup counts as a turn of its own
+export const sameTurn = (a: GameState, b: GameState) =>
+  a.currentTurnPlayerId === b.currentTurnPlayerId &&
+  a.moveNumber === b.moveNumber &&
+  (a.phase === GamePhase.SETUP) === (b.phase === GamePhase.SETUP);
+
+// Index of the point a takeback by `playerId` returns to: just before their last action, or
+// before the first action of their last turn. -1 when there is nothing of theirs to take back,
+// or another human has moved since: only humans' actions leave points, so the last one is theirs.
+export const findTakeback = (points: TakebackPoint[], playerId: string, wholeTurn: boolean): number => {
+  let index = points.length - 1;
+  if (index === -1 || points[index].state.currentTurnPlayerId !== playerId) return -1;
+  if (!wholeTurn) return index;
+
+  while (index > 0 && sameTurn(points[index - 1].state, points[index].state)) index--;
+  return index;
+};
@@ -0,0 +1,83 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameConfig, GameEventType, GamePhase, GameState, Tile } from '../types';
+import { HIDDEN_VALUE, TILE_SET_PRESETS } from '../constants';
+import { applyAction, getLegalActions } from './engine';
+import { createRandom } from './random';
+import { dealGame } from './setup';
+import { getPlayerView, getPublicView } from './view';
+
+// Three seats on the hard preset, so there are Jokers to place and move
+const config: GameConfig = {
+  playerCount: 3,
+  botCount: 0,
+  timerSeconds: 0,
+  tileSet: TILE_SET_PRESETS.find(p => p.label === 'Hard')!.tileSet,
+  playerDetails: ['Alice', 'Bob', 'Carol'].map(name => ({ name, avatar: '🐶', isBot: false })),
+};
+
+const isHidden = (tile: Tile, slot: number) =>
+  tile.value === HIDDEN_VALUE && tile.sortValue === slot && !tile.isJoker && !tile.isPlaced;
+
+// What `viewerId` must not be able to read in its view of `state`
+const findLeaks = (state: GameState, view: GameState, viewerId: string | null): string[] => {
+  const leaks: string[] = [];
+  view.players.forEach((player, i) => {
+    if (player.id === viewerId) return;
+    player.hand.forEach((tile, slot) => {
+      const original = state.players[i].hand[slot];
+      if (!original.isRevealed && !isHidden(tile, slot)) leaks.push(`${player.id}'s tile ${slot}`);
+    });
+  });
+  view.pool.forEach((tile, slot) => {
+    if (!isHidden(tile, slot)) leaks.push(`pool tile ${slot}`);
+  });
+  if (view.drawnTile && state.currentTurnPlayerId !== viewerId && !view.drawnTile.isRevealed && !isHidden(view.drawnTile, 0)) {
+    leaks.push('the drawn tile');
+  }
+  for (const event of view.events) {
+    if (event.type === GameEventType.JOKER_MOVED && event.actorId !== viewerId) leaks.push(`a Joker move by ${event.actorId}`);
+  }
+  if (view.events.some((event, i) => event.seq !== i + 1)) leaks.push('gaps in the event numbers');
+  return leaks;
+};
+
+test('no view shows a hidden value at any point of a game', () => {
+  for (let seed = 1; seed <= 20; seed++) {
+    const random = createRandom(seed);
+    let state = dealGame({ ...config, seed }, random);
+
+    while (state.phase !== GamePhase.GAME_OVER) {
+      for (const viewerId of [...state.players.map(p => p.id), null]) {
+        const view = viewerId ? getPlayerView(state, viewerId) : getPublicView(state);
+        assert.deepEqual(findLeaks(state, view, viewerId), [], `seed ${seed}, move ${state.moveNumber}, ${state.phase}, viewer ${viewerId}`);
+      }
+      const legal = getLegalActions(state, config.tileSet);
+      state = applyAction(state, legal[Math.floor(random() * legal.length)]);
+    }
+  }
+});
+
+test('hands in the Joker setup only show slots', () => {
+  let seed = 1;
+  let state = dealGame({ ...config, seed }, createRandom(seed));
+  while (state.phase !== GamePhase.SETUP) state = dealGame({ ...config, seed: ++seed }, createRandom(seed));
+
+  const view = getPlayerView(state, state.currentTurnPlayerId);
+  for (const player of view.players.filter(p => p.id !== state.currentTurnPlayerId)) {
+    assert.deepEqual(player.hand.map(t => t.id), player.hand.map((_, slot) => `${player.id}-slot-${slot}`));
+  }
+});
+
+test('everything is shown once the game is over, except other seats\' Joker moves', () => {
+  const random = createRandom(7);
+  let state = dealGame({ ...config, seed: 7 }, random);
+  while (state.phase !== GamePhase.GAME_OVER) {
+    const legal = getLegalActions(state, config.tileSet);
+    state = applyAction(state, legal[Math.floor(random() * legal.length)]);
+  }
+
+  const view = getPlayerView(state, 'p-0');
+  assert.deepEqual(view.players, state.players);
+  assert.ok(view.events.every((event, i) => event.seq === i + 1));
+});
@@ -0,0 +1,47 @@
+import { GameEvent, GameState, GameEventType, GamePhase, Tile } from '../types';
+import { HIDDEN_VALUE } from '../constants';
+
+// What one seat may know about the game. Opponents' hidden tiles, the pool and another
+// player's drawn tile keep their id and color (the tile backs show it) but lose their value
+// and Joker flag. Everything that renders the table or plays a bot works on this view.
+
+const hideTile = (tile: Tile, slot: number): Tile => ({
+  ...tile,
+  value: HIDDEN_VALUE,
+  sortValue: slot,
+  isJoker: false,
+  isPlaced: false,
+});
+
+// Moving a Joker gives it away, so only its owner sees that event. The rest are numbered
+// again so the viewer's stream has no gaps; it stays that way after the game, so the
+// numbering never jumps.
+const getVisibleEvents = (events: GameEvent[], viewerId: string | null): GameEvent[] => {
+  const visible = events.filter(e => e.type !== GameEventType.JOKER_MOVED || e.actorId === viewerId);
+  return visible.length === events.length ? events : visible.map((e, i) => ({ ...e, seq: i + 1 }));
+};
+
+export const getPlayerView = (state: GameState, viewerId: string | null): GameState => {
+  // Nothing else is secret once the game is over
+  if (state.phase === GamePhase.GAME_OVER) return { ...state, events: getVisibleEvents(state.events, viewerId) };
+
+  const redact = (tile: Tile, slot: number) => (tile.isRevealed ? tile : hideTile(tile, slot));
+  // While Jokers are being placed, tile ids would show which tile moved, so hands are
+  // only seen as slots until the first draw
+  const redactHand = (ownerId: string, hand: Tile[]) =>
+    state.phase === GamePhase.SETUP
+      ? hand.map((tile, slot) => ({ ...hideTile(tile, slot), id: `${ownerId}-slot-${slot}` }))
+      : hand.map(redact);
+  const drawn = state.drawnTile;
+
+  return {
+    ...state,
+    players: state.players.map(p => (p.id === viewerId ? p : { ...p, hand: redactHand(p.id, p.hand) })),
+    drawnTile: drawn && state.currentTurnPlayerId !== viewerId ? redact(drawn, 0) : drawn,
+    pool: state.pool.map(hideTile),
+    events: getVisibleEvents(state.events, viewerId),
+  };
+};
+
+// What a spectator sees: every hidden tile stays hidden
+export const getPublicView = (state: GameState): GameState => getPlayerView(state, null);
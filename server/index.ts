@@ -0,0 +1,57 @@
+import { WebSocketServer, WebSocket } from 'ws';
+import { ClientMessage, ServerMessage } from '../types';
+import { createRoomManager, Connection } from './rooms';
+
+// Local game server for online play on a LAN: npm run server
+// Browsers connect to ws://<this machine>:8787 (override with PORT).
+
+const PORT = Number(process.env.PORT) || 8787;
+const HEARTBEAT_MS = 15000;
+
+const rooms = createRoomManager();
+const server = new WebSocketServer({ host: '0.0.0.0', port: PORT });
+const alive = new WeakMap<WebSocket, boolean>();
+
+server.on('connection', socket => {
+  const connection: Connection = {
+    send: (msg: ServerMessage) => {
+      if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(msg));
+    },
+  };
+
+  alive.set(socket, true);
+  socket.on('pong', () => alive.set(socket, true));
+
+  socket.on('message', data => {
+    let msg: ClientMessage;
+    try {
+      msg = JSON.parse(String(data));
+    } catch {
+      return connection.send({ type: 'error', message: 'Invalid message' });
+    }
+    // A message the room code did not foresee fails for its sender, not for every room
+    try {
+      rooms.handleMessage(connection, msg);
+    } catch (e) {
+      console.error('Message failed', e);
+      connection.send({ type: 'error', message: 'Something went wrong with that request' });
+    }
+  });
+
+  socket.on('close', () => rooms.disconnect(connection));
+});
+
+// Drop connections that stopped answering pings so their seats show as disconnected
+const heartbeat = setInterval(() => {
+  for (const socket of server.clients) {
+    if (!alive.get(socket)) {
+      socket.terminate();
+      continue;
+    }
+    alive.set(socket, false);
+    socket.ping();
+  }
+}, HEARTBEAT_MS);
+
+server.on('close', () => clearInterval(heartbeat));
+server.on('listening', () => console.log(`Da Vinci Code server listening on ws://0.0.0.0:${PORT}`));
@@ -0,0 +1,370 @@
+import { randomUUID } from 'node:crypto';
+import {
+  ActionType,
+  BotDifficulty,
+  ClientMessage,
+  GameAction,
+  GameConfig,
+  GamePhase,
+  GameState,
+  PlayerSetupConfig,
+  RoomInfo,
+  ServerMessage,
+  TimeoutPolicy,
+} from '../types';
+import { applyAction, getCurrentPlayer, getDealProblem } from '../game/engine';
+import { BotMove, chooseBotMove, getFallbackBotMove } from '../game/strategy';
+import { dealGame } from '../game/setup';
+import { getPlayerView } from '../game/view';
+import { getBotModel } from '../services/gemini';
+import { addIncrement, createClocks } from '../game/clock';
+import { createRandom, generateSeed, SeededRandom } from '../game/random';
+
+// Rooms hosted by the game server. The server owns every GameState: browsers only see their
+// own seat's view and send actions for that seat, and bots are played here. It also keeps the
+// time: browsers only show the clocks, and running out of time is applied here.
+
+export interface Connection {
+  send: (msg: ServerMessage) => void;
+}
+
+interface Seat {
+  playerId: string;
+  details: PlayerSetupConfig;
+  token: string | null;
+  connection: Connection | null;
+}
+
+interface Room {
+  code: string;
+  config: GameConfig;
+  hostPlayerId: string;
+  seats: Seat[];
+  state: GameState | null;
+  random: SeededRandom;
+  botTimer: ReturnType<typeof setTimeout> | null;
+  emptySince: number | null;
+  clocks: Record<string, number>; // Chess clock banks, as of the start of the running turn
+  timing: TimedTurn | null; // The turn being timed, if the game has a timer or clock
+}
+
+interface TimedTurn {
+  key: string; // See turnKey
+  playerId: string;
+  isSetup: boolean;
+  startedAt: number;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+const CODE_LETTERS = 'ABCDEFGHJKLMNPQRSTUVWXYZ'; // No I or O, which read like 1 and 0
+const CODE_LENGTH = 4;
+const BOT_DELAY_MS = 1500;
+const EMPTY_ROOM_TTL_MS = 30 * 60 * 1000;
+const MAX_TIME_SECONDS = 24 * 60 * 60; // Far below the longest delay setTimeout can wait
+
+const isSeconds = (value: unknown, min: number) =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= MAX_TIME_SECONDS;
+
+const isSeatDetails = (details: unknown): details is PlayerSetupConfig =>
+  typeof details === 'object' && details !== null &&
+  'name' in details && typeof details.name === 'string' &&
+  'avatar' in details && typeof details.avatar === 'string' &&
+  'isBot' in details && typeof details.isBot === 'boolean' &&
+  (!('difficulty' in details) || details.difficulty === undefined || Object.values(BotDifficulty).includes(details.difficulty as BotDifficulty));
+
+// Why the settings a host sent cannot make a room, or null if they can
+const getConfigProblem = (config: GameConfig): string | null => {
+  if (typeof config !== 'object' || config === null) return 'Invalid game settings';
+  const { playerDetails, clock } = config;
+  if (!Array.isArray(playerDetails) || playerDetails.length < 2 || !playerDetails.every(isSeatDetails)) return 'Invalid game settings';
+  if (typeof config.tileSet !== 'object' || config.tileSet === null) return 'Missing tile set';
+  const dealProblem = getDealProblem({ ...config, playerCount: playerDetails.length });
+  if (dealProblem) return dealProblem;
+  if (!isSeconds(config.timerSeconds, 0)) return 'Invalid turn timer';
+  if (clock !== undefined && (typeof clock !== 'object' || clock === null || !isSeconds(clock.bankSeconds, 1) || !isSeconds(clock.incrementSeconds, 0))) {
+    return 'Invalid clock';
+  }
+  if (config.timeoutPolicy !== undefined && !Object.values(TimeoutPolicy).includes(config.timeoutPolicy)) return 'Invalid timeout rule';
+  if (config.seed !== undefined && !Number.isInteger(config.seed)) return 'Invalid seed';
+  const first = config.firstPlayerIndex;
+  if (first !== undefined && !(Number.isInteger(first) && first >= 0 && first < playerDetails.length)) return 'Invalid first player';
+  return null;
+};
+
+const isAction = (action: unknown): action is GameAction => {
+  if (typeof action !== 'object' || action === null || !('type' in action)) return false;
+  if (!Object.values(ActionType).includes(action.type as ActionType)) return false;
+  switch (action.type) {
+    case ActionType.GUESS:
+      return (
+        'targetPlayerId' in action && typeof action.targetPlayerId === 'string' &&
+        'tileId' in action && typeof action.tileId === 'string' &&
+        'value' in action && Number.isInteger(action.value)
+      );
+    case ActionType.PLACE_JOKER:
+      return 'tileId' in action && typeof action.tileId === 'string' && 'position' in action && Number.isInteger(action.position);
+    case ActionType.TIME_OUT:
+      return false; // Only the server's clock times a seat out
+    default:
+      return true;
+  }
+};
+
+export const createRoomManager = () => {
+  const rooms = new Map<string, Room>();
+  const bindings = new Map<Connection, { code: string; playerId: string }>();
+
+  const newCode = () => {
+    let code = '';
+    do {
+      code = Array.from({ length: CODE_LENGTH }, () => CODE_LETTERS[Math.floor(Math.random() * CODE_LETTERS.length)]).join('');
+    } while (rooms.has(code));
+    return code;
+  };
+
+  const roomInfo = (room: Room): RoomInfo => ({
+    code: room.code,
+    hostPlayerId: room.hostPlayerId,
+    config: { ...room.config, seed: undefined }, // The seed would let a browser rebuild the deal
+    isStarted: room.state !== null,
+    seats: room.seats.map(seat => ({
+      playerId: seat.playerId,
+      name: seat.details.name,
+      avatar: seat.details.avatar,
+      isBot: seat.details.isBot,
+      difficulty: seat.details.difficulty,
+      isTaken: seat.token !== null,
+      isConnected: seat.connection !== null,
+    })),
+  });
+
+  // Seconds left right now, for every seat's bank and for the turn timer
+  const clockMessage = (room: Room): ServerMessage => {
+    const elapsed = room.timing ? Math.floor((Date.now() - room.timing.startedAt) / 1000) : 0;
+    const clocks = { ...room.clocks };
+    if (room.config.clock && room.timing) clocks[room.timing.playerId] = Math.max(0, (clocks[room.timing.playerId] ?? 0) - elapsed);
+    const timeLeft = room.config.clock || !room.timing ? 0 : Math.max(0, room.config.timerSeconds - elapsed);
+    return { type: 'clock', clocks, timeLeft };
+  };
+
+  const broadcast = (room: Room) => {
+    const info = roomInfo(room);
+    const isTimed = room.state && (room.config.clock || room.config.timerSeconds > 0);
+    const clock = isTimed ? clockMessage(room) : null;
+    for (const seat of room.seats) {
+      seat.connection?.send({ type: 'room', room: info });
+      if (room.state) seat.connection?.send({ type: 'state', state: getPlayerView(room.state, seat.playerId) });
+      if (clock) seat.connection?.send(clock);
+    }
+  };
+
+  // A turn is one seat's move number; the Joker setup shares the first move number but is not a turn
+  const turnKey = (state: GameState) => `${state.moveNumber}:${state.currentTurnPlayerId}:${state.phase === GamePhase.SETUP}`;
+
+  // Called after every change of state: when the turn has moved on, the seat that moved pays
+  // for its time (and gets the increment after a real turn), and the next seat's time starts
+  const runClock = (room: Room) => {
+    const { state, config } = room;
+    if (!state || (!config.clock && config.timerSeconds === 0)) return;
+    const key = turnKey(state);
+    if (room.timing?.key === key && state.phase !== GamePhase.GAME_OVER) return;
+
+    const finished = room.timing;
+    if (finished) {
+      clearTimeout(finished.timer);
+      if (config.clock) {
+        const spent = Math.floor((Date.now() - finished.startedAt) / 1000);
+        room.clocks = { ...room.clocks, [finished.playerId]: Math.max(0, (room.clocks[finished.playerId] ?? 0) - spent) };
+        if (!finished.isSetup) room.clocks = addIncrement(room.clocks, finished.playerId, config.clock);
+      }
+      room.timing = null;
+    }
+    if (state.phase === GamePhase.GAME_OVER) return;
+
+    const playerId = state.currentTurnPlayerId;
+    const seconds = config.clock ? room.clocks[playerId] ?? 0 : config.timerSeconds;
+    const timer = setTimeout(() => {
+      if (room.timing?.timer !== timer) return;
+      applyToRoom(room, { type: ActionType.TIME_OUT, policy: config.timeoutPolicy ?? TimeoutPolicy.AUTO_PLAY });
+    }, seconds * 1000);
+    room.timing = { key, playerId, isSetup: state.phase === GamePhase.SETUP, startedAt: Date.now(), timer };
+  };
+
+  // Bots move on a delay so humans can follow along
+  const scheduleBot = (room: Room) => {
+    if (room.botTimer || !room.state || room.state.phase === GamePhase.GAME_OVER) return;
+    const bot = getCurrentPlayer(room.state);
+    if (!bot?.isBot) return;
+
+    room.botTimer = setTimeout(async () => {
+      const state = room.state;
+      if (!state) return;
+      let move: BotMove;
+      try {
+        move = await chooseBotMove(state, room.config.tileSet, getBotModel(room.random), room.random);
+      } catch (e) {
+        move = getFallbackBotMove(state, room.config.tileSet, (e as Error).message);
+      }
+      room.botTimer = null;
+      // The clock may have moved the game on while the bot was thinking
+      if (room.state !== state) return scheduleBot(room);
+
+      if (move.reasoning) {
+        for (const seat of room.seats) seat.connection?.send({ type: 'reasoning', playerId: bot.id, text: move.reasoning });
+      }
+      applyToRoom(room, move.action);
+    }, BOT_DELAY_MS);
+  };
+
+  const applyToRoom = (room: Room, action: GameAction): boolean => {
+    if (!room.state) return false;
+    const next = applyAction(room.state, action);
+    if (next === room.state) return false;
+
+    room.state = next;
+    runClock(room);
+    broadcast(room);
+    scheduleBot(room);
+    return true;
+  };
+
+  const bind = (connection: Connection, room: Room, seat: Seat) => {
+    // A seat has one live connection; an older one for the same seat is dropped
+    if (seat.connection && seat.connection !== connection) bindings.delete(seat.connection);
+    seat.connection = connection;
+    room.emptySince = null;
+    bindings.set(connection, { code: room.code, playerId: seat.playerId });
+  };
+
+  const takeSeat = (connection: Connection, room: Room, seat: Seat) => {
+    seat.token = randomUUID();
+    bind(connection, room, seat);
+    connection.send({ type: 'joined', code: room.code, playerId: seat.playerId, token: seat.token });
+    broadcast(room);
+  };
+
+  const leave = (connection: Connection) => {
+    const binding = bindings.get(connection);
+    if (!binding) return;
+    bindings.delete(connection);
+
+    const room = rooms.get(binding.code);
+    const seat = room?.seats.find(s => s.playerId === binding.playerId);
+    if (!room || !seat || seat.connection !== connection) return;
+
+    seat.connection = null;
+    // Before the game starts the seat opens up again; during the game it is held for a rejoin
+    if (!room.state) seat.token = null;
+    if (room.seats.every(s => !s.connection)) room.emptySince = Date.now();
+    broadcast(room);
+  };
+
+  const pruneRooms = () => {
+    const now = Date.now();
+    for (const [code, room] of rooms) {
+      if (room.emptySince !== null && now - room.emptySince > EMPTY_ROOM_TTL_MS) {
+        if (room.botTimer) clearTimeout(room.botTimer);
+        if (room.timing) clearTimeout(room.timing.timer);
+        rooms.delete(code);
+      }
+    }
+  };
+
+  const handleMessage = (connection: Connection, msg: ClientMessage) => {
+    const error = (message: string) => connection.send({ type: 'error', message });
+    const binding = bindings.get(connection);
+    const room = binding ? rooms.get(binding.code) : undefined;
+
+    switch (msg?.type) {
+      case 'create': {
+        pruneRooms();
+        const config = msg.config;
+        const configProblem = getConfigProblem(config);
+        if (configProblem) return error(configProblem);
+        const hostIndex = config.playerDetails.findIndex(d => !d.isBot);
+        if (hostIndex === -1) return error('An online game needs at least one human seat');
+        if (binding) leave(connection);
+
+        const newRoom: Room = {
+          code: newCode(),
+          config: {
+            ...config,
+            playerCount: config.playerDetails.length,
+            botCount: config.playerDetails.filter(d => d.isBot).length,
+            seed: config.seed ?? generateSeed(),
+          },
+          hostPlayerId: `p-${hostIndex}`,
+          seats: config.playerDetails.map((details, i) => ({ playerId: `p-${i}`, details, token: null, connection: null })),
+          state: null,
+          random: createRandom(0),
+          botTimer: null,
+          emptySince: null,
+          clocks: {},
+          timing: null,
+        };
+        rooms.set(newRoom.code, newRoom);
+        return takeSeat(connection, newRoom, newRoom.seats[hostIndex]);
+      }
+
+      case 'join': {
+        const target = rooms.get(String(msg.code).toUpperCase());
+        if (!target) return error('No game with that code');
+        if (target.state) return error('That game has already started');
+
+        const open = target.seats.filter(s => !s.details.isBot && !s.token);
+        const seat = msg.seatIndex !== undefined ? open.find(s => s.playerId === `p-${msg.seatIndex}`) : open[0];
+        if (!seat) return error('No free seat');
+
+        if (binding) leave(connection);
+        seat.details = {
+          ...seat.details,
+          name: String(msg.name || seat.details.name).slice(0, 24),
+          avatar: msg.avatar || seat.details.avatar,
+          profileId: typeof msg.profileId === 'string' ? msg.profileId : undefined,
+        };
+        return takeSeat(connection, target, seat);
+      }
+
+      case 'rejoin': {
+        const target = rooms.get(String(msg.code).toUpperCase());
+        const seat = target?.seats.find(s => s.token !== null && s.token === msg.token);
+        if (!target || !seat) return error('Could not rejoin that game');
+
+        bind(connection, target, seat);
+        connection.send({ type: 'joined', code: target.code, playerId: seat.playerId, token: seat.token! });
+        return broadcast(target);
+      }
+
+      case 'start': {
+        if (!room || !binding) return error('You are not in a game');
+        if (binding.playerId !== room.hostPlayerId) return error('Only the host can start the game');
+        if (room.state) return;
+        if (room.seats.some(s => !s.details.isBot && !s.connection)) return error('Waiting for every seat to be filled');
+
+        room.config = { ...room.config, playerDetails: room.seats.map(s => s.details) };
+        room.random = createRandom(room.config.seed ?? generateSeed());
+        room.state = dealGame(room.config, room.random);
+        if (room.config.clock) room.clocks = createClocks(room.state.players, room.config.clock);
+        runClock(room);
+        broadcast(room);
+        return scheduleBot(room);
+      }
+
+      case 'action': {
+        if (!room || !binding || !room.state) return error('No game in progress');
+        if (!isAction(msg.action)) return error('Invalid move');
+        if (room.state.currentTurnPlayerId !== binding.playerId) return error('It is not your turn');
+        if (!applyToRoom(room, msg.action)) return error('That move is not allowed now');
+        return;
+      }
+
+      case 'leave':
+        return leave(connection);
+
+      default:
+        return error('Unknown message');
+    }
+  };
+
+  return { handleMessage, disconnect: leave };
+};
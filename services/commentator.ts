@@ -0,0 +1,140 @@
+import { GoogleGenAI } from '@google/genai';
+import { GameEvent, GameEventType, GameState, Player, TileColor } from '../types';
+import { JOKER_VALUE, COLOR_LETTERS } from '../constants';
+import { describeEvent } from '../game/events';
+import { GEMINI_MODEL, getGeminiApiKey } from './gemini';
+
+// Table commentator for the chat panel. It reacts to the big moments of the game and answers
+// rules questions. It is only ever given the public view of the game (see getPublicView), so
+// it cannot give a hidden tile away. Gemini is used when an API key is configured, otherwise
+// a scripted stand-in that needs no network.
+
+export type HighlightKind = 'REVEAL' | 'ELIMINATION' | 'STREAK' | 'WIN';
+
+export interface Highlight {
+  kind: HighlightKind;
+  actorId: string;
+  targetId: string | null;
+  streak: number; // Correct guesses in a row this turn
+  events: GameEvent[]; // The new events that led to it
+}
+
+export interface Commentator {
+  comment: (highlight: Highlight, table: GameState) => Promise<string>;
+  answer: (question: string, table: GameState) => Promise<string>;
+}
+
+const MIN_STREAK = 2;
+
+// The most notable thing in `events` (the events since the last check), if anything
+export const findHighlight = (events: GameEvent[], allEvents: GameEvent[]): Highlight | null => {
+  const base = { targetId: null, streak: 0, events };
+  const won = events.find(e => e.type === GameEventType.GAME_WON);
+  if (won) return { ...base, kind: 'WIN', actorId: won.actorId, targetId: won.winnerId };
+
+  const eliminated = events.find(e => e.type === GameEventType.PLAYER_ELIMINATED);
+  if (eliminated) return { ...base, kind: 'ELIMINATION', actorId: eliminated.actorId, targetId: eliminated.targetId };
+
+  const guess = [...events].reverse().find(e => e.type === GameEventType.GUESS_MADE);
+  if (!guess || guess.type !== GameEventType.GUESS_MADE || !guess.isCorrect) return null;
+
+  const streak = allEvents.filter(
+    e => e.type === GameEventType.GUESS_MADE && e.moveNumber === guess.moveNumber && e.isCorrect
+  ).length;
+  if (streak >= MIN_STREAK) return { ...base, kind: 'STREAK', actorId: guess.actorId, targetId: guess.targetId, streak };
+  return { ...base, kind: 'REVEAL', actorId: guess.actorId, targetId: guess.targetId, streak };
+};
+
+const nameOf = (players: Player[], id: string | null) => players.find(p => p.id === id)?.name ?? 'Someone';
+
+// --- Gemini ---
+
+const RULES_SUMMARY = `Da Vinci Code rules: 24 tiles numbered 0-11 in black and white, plus two optional Jokers.
+Tables may play variants with a different top number, a third color (red, R), more Jokers or another hand size.
+Each player's hand is kept in ascending order, black before white on equal numbers; a Joker may sit anywhere.
+On your turn you draw a tile, then guess the value of a hidden opponent tile. A correct guess reveals it
+and you may guess again or stop, keeping your drawn tile hidden. A wrong guess reveals your drawn tile,
+or once the pool is empty one of your own hidden tiles of your choice (unless the table plays free guesses).
+A player whose tiles are all revealed is out; the last player with hidden tiles wins.`;
+
+const SYSTEM_INSTRUCTION = `You are a lively but brief commentator at a Da Vinci Code table.
+${RULES_SUMMARY}
+Hidden tiles are shown as "?". Never guess or hint at hidden values. Answer in at most two sentences.`;
+
+const tableText = (table: GameState): string => {
+  const tileText = (color: TileColor, value: number, isRevealed: boolean) =>
+    `${COLOR_LETTERS[color]}${!isRevealed ? '?' : value === JOKER_VALUE ? '-' : value}`;
+  const hands = table.players.map(p =>
+    `${p.name}${p.isEliminated ? ' (out)' : ''}: ${p.hand.map(t => tileText(t.color, t.value, t.isRevealed)).join(' ')}`
+  );
+  const recent = table.events.slice(-12).map(e => describeEvent(e, table.players));
+  return `Hands:\n${hands.join('\n')}\nRecent events:\n${recent.join('\n')}`;
+};
+
+export const createGeminiCommentator = (apiKey: string): Commentator => {
+  const ai = new GoogleGenAI({ apiKey });
+  const ask = async (prompt: string) => {
+    const response = await ai.models.generateContent({
+      model: GEMINI_MODEL,
+      contents: prompt,
+      config: { systemInstruction: SYSTEM_INSTRUCTION },
+    });
+    return response.text?.trim() || '...';
+  };
+
+  return {
+    comment: (highlight, table) =>
+      ask(`${tableText(table)}\n\nReact to this moment (${highlight.kind.toLowerCase()}): ${highlight.events.map(e => describeEvent(e, table.players)).join(' ')}`),
+    answer: (question, table) => ask(`${tableText(table)}\n\nA player asks: ${question}`),
+  };
+};
+
+// --- Scripted stand-in ---
+
+const LINES: Record<HighlightKind, ((actor: string, target: string, streak: number) => string)[]> = {
+  REVEAL: [
+    (actor, target) => `Nicely read, ${actor}! ${target} has one fewer secret.`,
+    (actor) => `${actor} cracks a tile. The code is starting to show.`,
+    (actor, target) => `${target} won't like that. ${actor} is reading the table well.`,
+  ],
+  STREAK: [
+    (actor, _, streak) => `${streak} in a row for ${actor}! Do they dare push their luck again?`,
+    (actor, target, streak) => `${actor} is on fire: ${streak} straight hits, the latest on ${target}.`,
+  ],
+  ELIMINATION: [
+    (actor, target) => `That's the end of the road for ${target}. ${actor} cracked the whole code!`,
+    (_, target) => `${target} is out! Every tile laid bare.`,
+  ],
+  WIN: [
+    (_, winner) => `${winner} wins it! A masterclass in deduction.`,
+    (_, winner) => `And that's the game. ${winner} is the last code standing!`,
+  ],
+};
+
+const RULE_ANSWERS: { keywords: string[]; answer: string }[] = [
+  { keywords: ['joker', 'dash', '—'], answer: 'A Joker can sit anywhere in a hand. Dealt Jokers are placed before the first draw, drawn ones when drawn, each only once. Guess it with the dash (—).' },
+  { keywords: ['order', 'sort', 'black', 'white'], answer: 'Hands are kept in ascending order. On equal numbers, black goes left of white.' },
+  { keywords: ['wrong', 'miss', 'penalty'], answer: 'A wrong guess reveals the tile you drew this turn, and your turn ends. With the pool empty you reveal one of your own tiles instead.' },
+  { keywords: ['again', 'continue', 'stop'], answer: 'After a correct guess you may guess again or stop. Stopping keeps your drawn tile hidden.' },
+  { keywords: ['win', 'lose', 'out', 'eliminat'], answer: 'A player with every tile revealed is out. The last player with hidden tiles wins.' },
+  { keywords: ['draw', 'pool', 'empty'], answer: 'Each turn starts with a draw. With an empty pool you go straight to guessing, and a wrong guess costs you a tile of your choice.' },
+];
+
+export const createScriptedCommentator = (random: () => number = Math.random): Commentator => ({
+  comment: async (highlight, table) => {
+    const lines = LINES[highlight.kind];
+    const line = lines[Math.floor(random() * lines.length)];
+    return line(nameOf(table.players, highlight.actorId), nameOf(table.players, highlight.targetId), highlight.streak);
+  },
+  answer: async (question) => {
+    const text = question.toLowerCase();
+    const rule = RULE_ANSWERS.find(r => r.keywords.some(k => text.includes(k)));
+    return rule?.answer ?? 'I only know the rules of the game. Try asking about Jokers, hand order, wrong guesses or winning.';
+  },
+});
+
+// Gemini with an API key, the scripted stand-in without one
+export const createCommentator = (): Commentator => {
+  const apiKey = getGeminiApiKey();
+  return apiKey ? createGeminiCommentator(apiKey) : createScriptedCommentator();
+};
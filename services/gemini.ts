@@ -0,0 +1,34 @@
+import { GoogleGenAI } from '@google/genai';
+import { BotModel, createMockModel } from '../game/strategy';
+import { Random } from '../game/random';
+
+// Shared Gemini setup. The key is GEMINI_API_KEY: from .env.local in the app, from the
+// environment for the game server.
+
+export const GEMINI_MODEL = 'gemini-2.5-flash';
+
+export const getGeminiApiKey = (): string | undefined => process.env.GEMINI_API_KEY || undefined;
+
+export const createGeminiBotModel = (apiKey: string): BotModel => {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    complete: async prompt => {
+      const response = await ai.models.generateContent({
+        model: GEMINI_MODEL,
+        contents: prompt,
+        config: { responseMimeType: 'application/json' },
+      });
+      return response.text ?? '';
+    },
+  };
+};
+
+let geminiBotModel: BotModel | null = null;
+
+// Gemini when a key is configured, otherwise the offline mock
+export const getBotModel = (random: Random): BotModel => {
+  const apiKey = getGeminiApiKey();
+  if (!apiKey) return createMockModel(random);
+  geminiBotModel ??= createGeminiBotModel(apiKey);
+  return geminiBotModel;
+};
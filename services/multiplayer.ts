@@ -0,0 +1,76 @@
+import { ClientMessage, ServerMessage } from '../types';
+
+// Browser side of online play: one WebSocket to the game server that reconnects on its
+// own and takes the same seat back after a dropped connection.
+
+export type ConnectionStatus = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export const SERVER_PORT = 8787;
+const MAX_RETRY_DELAY_MS = 10000;
+
+export const getDefaultServerUrl = () => `ws://${window.location.hostname || 'localhost'}:${SERVER_PORT}`;
+
+export interface MultiplayerConnection {
+  send: (msg: ClientMessage) => void;
+  close: () => void;
+}
+
+export const connectToServer = (
+  url: string,
+  onMessage: (msg: ServerMessage) => void,
+  onStatusChange: (status: ConnectionStatus) => void
+): MultiplayerConnection => {
+  let socket: WebSocket;
+  let session: { code: string; token: string } | null = null;
+  let isClosed = false;
+  let attempts = 0;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  const queue: ClientMessage[] = [];
+
+  const open = () => {
+    onStatusChange(attempts === 0 ? 'connecting' : 'reconnecting');
+    socket = new WebSocket(url);
+
+    socket.onopen = () => {
+      attempts = 0;
+      onStatusChange('open');
+      if (session) socket.send(JSON.stringify({ type: 'rejoin', ...session }));
+      while (queue.length) socket.send(JSON.stringify(queue.shift()));
+    };
+
+    socket.onmessage = (e) => {
+      let msg: ServerMessage;
+      try {
+        msg = JSON.parse(String(e.data));
+      } catch {
+        return;
+      }
+      if (msg.type === 'joined') session = { code: msg.code, token: msg.token };
+      onMessage(msg);
+    };
+
+    socket.onclose = () => {
+      if (isClosed) return onStatusChange('closed');
+      // Back off: 1s, 2s, 4s... up to 10s between attempts
+      const delay = Math.min(1000 * 2 ** attempts, MAX_RETRY_DELAY_MS);
+      attempts++;
+      onStatusChange('reconnecting');
+      retryTimer = setTimeout(open, delay);
+    };
+  };
+
+  open();
+
+  return {
+    send: (msg) => {
+      if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(msg));
+      else queue.push(msg);
+    },
+    close: () => {
+      isClosed = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify({ type: 'leave' }));
+      socket.close();
+    },
+  };
+};
@@ -0,0 +1,125 @@
+import { GameConfig, GameState, PlayerProfile, ProfileStats } from '../types';
+import { CLASSIC_TILE_SET, DEFAULT_TIMER } from '../constants';
+import { getGameStats } from '../game/stats';
+
+// Saved player profiles and their lifetime stats, kept in localStorage.
+
+const STORAGE_KEY = 'davinci-profiles';
+const PROFILES_VERSION = 2;
+
+const emptyStats = (): ProfileStats => ({
+  gamesPlayed: 0,
+  wins: 0,
+  losses: 0,
+  guesses: 0,
+  correctGuesses: 0,
+  eliminationsCaused: 0,
+  turnsPlayed: 0,
+  vsBots: {},
+});
+
+export const createProfile = (name: string, avatar: string): PlayerProfile => ({
+  id: `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  name,
+  avatar,
+  preferences: { timerSeconds: DEFAULT_TIMER, tileSet: CLASSIC_TILE_SET },
+  stats: emptyStats(),
+});
+
+// Version 1 had a Jokers switch where the preferred tile set is now
+const upgradeProfile = (profile: Record<string, unknown>): PlayerProfile => {
+  const { includeJokers, ...preferences } = profile.preferences as { timerSeconds: number; includeJokers?: boolean };
+  return {
+    ...profile,
+    preferences: { ...preferences, tileSet: { ...CLASSIC_TILE_SET, jokerCount: includeJokers ? 2 : 0 } },
+  } as PlayerProfile;
+};
+
+export const loadProfiles = (): PlayerProfile[] => {
+  try {
+    const json = localStorage.getItem(STORAGE_KEY);
+    const data = json ? JSON.parse(json) : null;
+    if (!Array.isArray(data?.profiles)) return [];
+    if (data.version === 1) return data.profiles.map(upgradeProfile);
+    return data.version === PROFILES_VERSION ? data.profiles : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveProfiles = (profiles: PlayerProfile[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: PROFILES_VERSION, profiles }));
+  } catch {
+    // Storage full or disabled: profiles last until the page is closed
+  }
+};
+
+// Adds a finished game to the stats of every profile that played in it. `onlySeatId`
+// limits it to one seat, for online games where the other seats belong to other browsers.
+export const recordGameResult = (
+  profiles: PlayerProfile[],
+  config: GameConfig,
+  state: GameState,
+  onlySeatId: string | null = null
+): PlayerProfile[] => {
+  const lines = getGameStats(state);
+  const botLevels = [...new Set(config.playerDetails.filter(d => d.isBot && d.difficulty).map(d => d.difficulty!))];
+
+  return profiles.map(profile => {
+    const seatIndex = config.playerDetails.findIndex(d => !d.isBot && d.profileId === profile.id);
+    const seatId = `p-${seatIndex}`;
+    const line = lines[seatId];
+    if (seatIndex === -1 || !line || (onlySeatId && seatId !== onlySeatId)) return profile;
+
+    const { stats } = profile;
+    const vsBots = { ...stats.vsBots };
+    for (const level of botLevels) {
+      const record = vsBots[level] ?? { wins: 0, losses: 0 };
+      vsBots[level] = line.won ? { ...record, wins: record.wins + 1 } : { ...record, losses: record.losses + 1 };
+    }
+
+    return {
+      ...profile,
+      stats: {
+        gamesPlayed: stats.gamesPlayed + 1,
+        wins: stats.wins + (line.won ? 1 : 0),
+        losses: stats.losses + (line.won ? 0 : 1),
+        guesses: stats.guesses + line.guesses,
+        correctGuesses: stats.correctGuesses + line.correctGuesses,
+        eliminationsCaused: stats.eliminationsCaused + line.eliminationsCaused,
+        turnsPlayed: stats.turnsPlayed + line.turnsPlayed,
+        vsBots,
+      },
+    };
+  });
+};
+
+export const getAccuracy = (stats: ProfileStats) => (stats.guesses ? stats.correctGuesses / stats.guesses : 0);
+
+export const getAverageTurns = (stats: ProfileStats) => (stats.gamesPlayed ? stats.turnsPlayed / stats.gamesPlayed : 0);
+
+// One row per profile, for pasting into a league spreadsheet
+export const downloadStatsCsv = (profiles: PlayerProfile[]) => {
+  const header = ['Name', 'Games', 'Wins', 'Losses', 'Guesses', 'Correct', 'Accuracy %', 'Eliminations', 'Avg turns'];
+  const quote = (value: string) => `"${value.replace(/"/g, '""')}"`;
+  const rows = profiles.map(({ name, stats }) => [
+    quote(name),
+    stats.gamesPlayed,
+    stats.wins,
+    stats.losses,
+    stats.guesses,
+    stats.correctGuesses,
+    Math.round(getAccuracy(stats) * 100),
+    stats.eliminationsCaused,
+    getAverageTurns(stats).toFixed(1),
+  ].join(','));
+
+  const blob = new Blob([[header.join(','), ...rows].join('\n') + '\n'], { type: 'text/csv' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `davinci-stats-${new Date().toISOString().slice(0, 10)}.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
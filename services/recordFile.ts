@@ -0,0 +1,19 @@
+import { GameRecord } from '../types';
+import { formatRecord, parseRecord, RECORD_FILE_EXTENSION } from '../game/record';
+
+// Export and import of game records as plain-text files.
+
+export const downloadRecord = (record: GameRecord) => {
+  const blob = new Blob([formatRecord(record)], { type: 'text/plain' });
+  const url = URL.createObjectURL(blob);
+  const date = new Date().toISOString().slice(0, 10);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `davinci-${date}-${record.config.seed ?? 'game'}${RECORD_FILE_EXTENSION}`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Rejects with the parser's error if the file is not a valid record
+export const readRecordFile = async (file: File): Promise<GameRecord> => parseRecord(await file.text());
@@ -0,0 +1,156 @@
+import { GameConfig, GameState, GameRecord, Notebook, MatchState } from '../types';
+import { CLASSIC_TILE_SET } from '../constants';
+
+// Autosave of the game in progress, kept in localStorage between page loads.
+
+const STORAGE_KEY = 'davinci-code-save';
+
+// Bump when the saved shape changes and add a migration from the previous version below
+export const SAVE_VERSION = 11;
+
+export interface SavedGame {
+  version: number;
+  savedAt: string;
+  config: GameConfig;
+  gameState: GameState;
+  timeLeft: number;
+  clocks: Record<string, number>; // Seconds left in each seat's time bank, empty without a chess clock
+  randomCalls: number; // Numbers already drawn from the seeded generator
+  record: GameRecord | null; // Null for games saved before records existed
+  notebooks: Record<string, Notebook>; // Each seat's private notes, by player id
+  match: MatchState | null; // The match this game belongs to, if any
+  takebacksUsed: Record<string, number>; // Takebacks each seat has used this game
+}
+
+// A save as read from storage, before it is known to have the current shape
+type SaveData = Record<string, unknown>;
+
+const isData = (value: unknown): value is SaveData => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// A nested object of an old save, empty where it is missing or malformed
+const field = (data: SaveData, key: string): SaveData => {
+  const value = data[key];
+  return isData(value) ? value : {};
+};
+
+// Updates the save's game record, which is null for games saved before records existed
+const updateRecord = (save: SaveData, update: (record: SaveData) => SaveData): SaveData =>
+  isData(save.record) ? { ...save, record: update(save.record) } : save;
+
+// Each entry upgrades a save from version `n` to version `n + 1`
+const MIGRATIONS: Record<number, (save: SaveData) => SaveData> = {
+  1: save => ({ ...save, record: null }),
+  // The free-text turnLog became a typed event stream; old log lines cannot be converted
+  2: save => {
+    const toEvents = ({ turnLog, ...state }: SaveData): SaveData => ({ ...state, events: [] });
+    return updateRecord(
+      { ...save, gameState: toEvents(field(save, 'gameState')) },
+      record => ({ ...record, initialState: toEvents(field(record, 'initialState')) })
+    );
+  },
+  3: save => ({ ...save, notebooks: {} }),
+  4: save => ({ ...save, match: null }),
+  // The Jokers switch became part of a configurable tile set
+  5: save => {
+    const toTileSet = ({ includeJokers, ...config }: SaveData): SaveData => ({
+      ...config,
+      tileSet: { ...CLASSIC_TILE_SET, jokerCount: includeJokers ? 2 : 0 },
+    });
+    return updateRecord(
+      { ...save, config: toTileSet(field(save, 'config')) },
+      record => ({ ...record, config: toTileSet(field(record, 'config')) })
+    );
+  },
+  // Games already under way keep the free guesses they were started with
+  6: save => {
+    const freeRule = (config: SaveData): SaveData => ({ ...config, freeEmptyPoolGuesses: true });
+    const noPenalty = (state: SaveData): SaveData => ({ ...state, emptyPoolPenalty: false });
+    return updateRecord(
+      { ...save, config: freeRule(field(save, 'config')), gameState: noPenalty(field(save, 'gameState')) },
+      record => ({ ...record, config: freeRule(field(record, 'config')), initialState: noPenalty(field(record, 'initialState')) })
+    );
+  },
+  // The first player is kept in the state for the Joker setup that comes before the first turn
+  7: save => {
+    const withFirst = (state: SaveData, config: SaveData): SaveData => ({
+      ...state,
+      firstPlayerId: `p-${typeof config.firstPlayerIndex === 'number' ? config.firstPlayerIndex : 0}`,
+    });
+    return updateRecord(
+      { ...save, gameState: withFirst(field(save, 'gameState'), field(save, 'config')) },
+      record => ({ ...record, initialState: withFirst(field(record, 'initialState'), field(record, 'config')) })
+    );
+  },
+  8: save => ({ ...save, clocks: {} }),
+  9: save => ({ ...save, takebacksUsed: {} }),
+  // Equal numbers are ordered by the game's own tile set rather than one fixed color order
+  10: save => {
+    const withOrder = (state: SaveData, config: SaveData): SaveData => ({ ...state, colorOrder: field(config, 'tileSet').colors });
+    return updateRecord(
+      { ...save, gameState: withOrder(field(save, 'gameState'), field(save, 'config')) },
+      record => ({ ...record, initialState: withOrder(field(record, 'initialState'), field(record, 'config')) })
+    );
+  },
+};
+
+// The outline of a current save. The game inside is trusted to be as the app saved it.
+const isSavedGame = (save: SaveData): boolean => {
+  const config = field(save, 'config');
+  const gameState = field(save, 'gameState');
+  return (
+    Array.isArray(config.playerDetails) &&
+    isData(config.tileSet) &&
+    Array.isArray(gameState.players) &&
+    Array.isArray(gameState.events) &&
+    typeof gameState.phase === 'string' &&
+    Array.isArray(gameState.colorOrder) &&
+    typeof save.timeLeft === 'number' &&
+    typeof save.randomCalls === 'number' &&
+    isData(save.clocks) &&
+    isData(save.notebooks) &&
+    isData(save.takebacksUsed) &&
+    (save.record === null || isData(save.record)) &&
+    (save.match === null || isData(save.match))
+  );
+};
+
+const migrate = (raw: unknown): SavedGame | null => {
+  if (!isData(raw) || typeof raw.version !== 'number' || raw.version > SAVE_VERSION) return null;
+
+  let save = raw;
+  let version = raw.version;
+  while (version < SAVE_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) return null;
+    version += 1;
+    save = { ...step(save), version };
+  }
+
+  return isSavedGame(save) ? (save as unknown as SavedGame) : null;
+};
+
+export const loadGame = (): SavedGame | null => {
+  try {
+    const json = localStorage.getItem(STORAGE_KEY);
+    return json ? migrate(JSON.parse(json)) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveGame = (save: Omit<SavedGame, 'version' | 'savedAt'>) => {
+  try {
+    const data: SavedGame = { ...save, version: SAVE_VERSION, savedAt: new Date().toISOString() };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+  } catch {
+    // Storage full or disabled: the game simply isn't resumable
+  }
+};
+
+export const clearSavedGame = () => {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Nothing to clear
+  }
+};
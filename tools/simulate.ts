@@ -0,0 +1,134 @@
+import { parseArgs } from 'node:util';
+import { BotDifficulty, TileColor, TileSet } from '../types';
+import { BOT_DIFFICULTY_LABELS, COLOR_LETTERS, MAX_PLAYERS, TILE_SET_PRESETS, describeTileSet } from '../constants';
+import { getDealProblem, scaleTileSet } from '../game/engine';
+import { runSimulation, SimulationReport } from '../game/simulation';
+
+// Bot-vs-bot games from the command line: npm run simulate -- --bots expert,casual --games 1000
+// Prints a table, or the report as JSON with --json. Run with --help for every option.
+
+const USAGE = `Usage: npm run simulate -- [options]
+  --bots <list>        Seat strategies, e.g. expert,casual (random, casual, expert, gemini)
+  --players <n>        Seats, repeating the --bots list to fill them (default: one per bot)
+  --games <n>          Games to play (default 1000)
+  --seeds <from-to>    Seed range to play instead of --games, e.g. 1-5000
+  --preset <name>      Tile set to start from: ${TILE_SET_PRESETS.map(p => p.label.toLowerCase()).join(', ')}
+  --max <n>            Highest tile number
+  --colors <letters>   Tile colors in order, e.g. BW or BRW
+  --jokers <n>         Jokers in the box
+  --hand <n>           Tiles dealt to each player
+  --free-empty-pool    House rule: no penalty for a wrong guess once the pool is empty
+  --json               Print the report as JSON instead of a table
+Gemini seats play against an offline mock model.`;
+
+const fail = (message: string): never => {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(1);
+};
+
+const toInteger = (text: string | undefined, name: string): number | undefined => {
+  if (text === undefined) return undefined;
+  const value = Number(text);
+  if (!Number.isInteger(value) || value < 0) fail(`--${name} needs a whole number, got "${text}"`);
+  return value;
+};
+
+const { values } = parseArgs({
+  options: {
+    bots: { type: 'string', default: 'expert,casual' },
+    players: { type: 'string' },
+    games: { type: 'string' },
+    seeds: { type: 'string' },
+    preset: { type: 'string', default: 'classic' },
+    max: { type: 'string' },
+    colors: { type: 'string' },
+    jokers: { type: 'string' },
+    hand: { type: 'string' },
+    'free-empty-pool': { type: 'boolean', default: false },
+    json: { type: 'boolean', default: false },
+    help: { type: 'boolean', default: false },
+  },
+});
+
+if (values.help) {
+  console.log(USAGE);
+  process.exit(0);
+}
+
+const strategies = values.bots.split(',').map(name => {
+  const difficulty = name.trim().toUpperCase() as BotDifficulty;
+  return Object.values(BotDifficulty).includes(difficulty) ? difficulty : fail(`Unknown bot "${name}"`);
+});
+const playerCount = toInteger(values.players, 'players') ?? strategies.length;
+if (playerCount < 2 || playerCount > MAX_PLAYERS) fail(`Tables seat 2 to ${MAX_PLAYERS} players`);
+const bots = Array.from({ length: playerCount }, (_, i) => strategies[i % strategies.length]);
+
+const preset = TILE_SET_PRESETS.find(p => p.label.toLowerCase() === values.preset.toLowerCase());
+if (!preset) fail(`Unknown preset "${values.preset}"`);
+const colors = values.colors?.toUpperCase().split('').map(letter => {
+  const color = (Object.keys(COLOR_LETTERS) as TileColor[]).find(c => COLOR_LETTERS[c] === letter);
+  return color ?? fail(`Unknown color "${letter}"`);
+});
+const tileSet: TileSet = scaleTileSet(
+  {
+    ...preset!.tileSet,
+    maxNumber: toInteger(values.max, 'max') ?? preset!.tileSet.maxNumber,
+    colors: colors ?? preset!.tileSet.colors,
+    jokerCount: toInteger(values.jokers, 'jokers') ?? preset!.tileSet.jokerCount,
+    handSize: toInteger(values.hand, 'hand') ?? preset!.tileSet.handSize,
+  },
+  playerCount
+);
+const dealProblem = getDealProblem({ playerCount, timerSeconds: 0, botCount: playerCount, playerDetails: [], tileSet });
+if (dealProblem) fail(dealProblem);
+
+let firstSeed = 1;
+let games = toInteger(values.games, 'games') ?? 1000;
+if (values.seeds) {
+  const range = /^(\d+)-(\d+)$/.exec(values.seeds);
+  if (!range || Number(range[2]) < Number(range[1])) fail(`--seeds needs a range like 1-1000, got "${values.seeds}"`);
+  firstSeed = Number(range![1]);
+  games = Number(range![2]) - firstSeed + 1;
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const printTable = (report: SimulationReport) => {
+  const rows = [
+    ['Strategy', 'Seats', 'Wins', 'Win rate', 'Guesses', 'Accuracy'],
+    ...report.strategies.map(s => [
+      BOT_DIFFICULTY_LABELS[s.difficulty],
+      String(s.seats),
+      String(s.wins),
+      percent(s.winRate),
+      String(s.guesses),
+      percent(s.guessAccuracy),
+    ]),
+  ];
+  const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+  const line = (row: string[]) => row.map((cell, column) => (column ? cell.padStart(widths[column]) : cell.padEnd(widths[column]))).join('  ');
+
+  console.log(`${playerCount} players (${bots.map(b => BOT_DIFFICULTY_LABELS[b]).join(', ')}), ${describeTileSet(tileSet)}`);
+  console.log(`Seeds ${firstSeed}-${firstSeed + games - 1}: ${report.games - report.unfinished} games finished, ${report.unfinished} cut off\n`);
+  console.log(line(rows[0]));
+  console.log(widths.map(w => '-'.repeat(w)).join('  '));
+  rows.slice(1).forEach(row => console.log(line(row)));
+  console.log(`\nAverage game: ${report.averageTurns.toFixed(1)} turns, ${report.averageActions.toFixed(1)} actions`);
+  console.log(`First seat won ${percent(report.firstSeatWinRate)} (fair share ${percent(report.fairWinRate)})`);
+  console.log(`Wins by seat: ${report.seatWins.map((wins, seat) => `P${seat} ${wins}`).join(', ')}`);
+};
+
+const main = async () => {
+  const report = await runSimulation(
+    { bots, tileSet, firstSeed, games, freeEmptyPoolGuesses: values['free-empty-pool'] },
+    (_, index) => {
+      if (process.stderr.isTTY && (index + 1) % 50 === 0) process.stderr.write(`\r${index + 1}/${games} games`);
+    }
+  );
+  if (process.stderr.isTTY) process.stderr.write('\r\x1b[K');
+
+  if (values.json) console.log(JSON.stringify({ players: playerCount, bots, tileSet, firstSeed, ...report }, null, 2));
+  else printTable(report);
+};
+
+main();
@@ -1,12 +1,21 @@
 export enum TileColor {
   BLACK = 'BLACK',
   WHITE = 'WHITE',
+  RED = 'RED',
+}
+
+// The tiles in the box: every number from 0 to `maxNumber` in each color, plus Jokers
+export interface TileSet {
+  maxNumber: number;
+  colors: TileColor[]; // Two or three, in the order equal numbers sit in a hand
+  jokerCount: number; // At most one per color, taken from the front of `colors`
+  handSize?: number; // Tiles dealt to each player; 4, or 3 with four or more players, when unset
 }
 
 export interface Tile {
   id: string;
   color: TileColor;
-  value: number; // -1 for Joker
+  value: number; // -1 for Joker, -2 when hidden from the viewer (see game/view.ts)
   sortValue: number; // Used for ordering in hand (e.g. 3.5 to go between 3 and 4)
   isRevealed: boolean;
   ownerId: string | null;
@@ -14,21 +23,30 @@ export interface Tile {
   isPlaced: boolean; // True if the user has already moved this Joker once
 }
 
+export enum BotDifficulty {
+  RANDOM = 'RANDOM',
+  CASUAL = 'CASUAL',
+  EXPERT = 'EXPERT',
+  GEMINI = 'GEMINI', // Asks a language model, falling back to Expert play
+}
+
 export interface Player {
   id: string;
   name: string;
   isBot: boolean;
+  difficulty?: BotDifficulty; // Only set for bots
   hand: Tile[];
   isEliminated: boolean;
   avatar: string;
 }
 
 export enum GamePhase {
-  SETUP = 'SETUP',
+  SETUP = 'SETUP', // Before the first draw: each seat dealt a Joker places it, one seat at a time
   DRAW = 'DRAW',
   GUESS = 'GUESS',
   RESOLVE = 'RESOLVE',
   TURN_END = 'TURN_END',
+  REVEAL_OWN = 'REVEAL_OWN', // Wrong guess with an empty pool: the guesser picks a tile of their own to reveal
   GAME_OVER = 'GAME_OVER',
 }
 
@@ -39,10 +57,112 @@ export interface GameState {
   pool: Tile[];
   phase: GamePhase;
   winnerId: string | null;
-  turnLog: string[];
+  events: GameEvent[]; // Everything that happened, oldest first
   moveNumber: number;
+  wrongGuesses: WrongGuess[]; // Public record of values a hidden tile is known not to be
+  emptyPoolPenalty: boolean; // Whether a wrong guess without a drawn tile costs one of the guesser's tiles
+  firstPlayerId: string; // Seat that takes the first turn, after the Joker setup
+  colorOrder: TileColor[]; // The tile set's colors, in the order equal numbers sit in a hand
+}
+
+export enum GameEventType {
+  TILE_DRAWN = 'TILE_DRAWN',
+  GUESS_MADE = 'GUESS_MADE',
+  TILE_REVEALED = 'TILE_REVEALED',
+  PLAYER_ELIMINATED = 'PLAYER_ELIMINATED',
+  JOKER_MOVED = 'JOKER_MOVED',
+  TIMED_OUT = 'TIMED_OUT',
+  TAKEN_BACK = 'TAKEN_BACK', // Casual games: the table went back to before a player's last move or turn
+  TURN_ENDED = 'TURN_ENDED',
+  GAME_WON = 'GAME_WON',
+}
+
+interface GameEventBase {
+  seq: number; // Position in the event stream, starting at 1
+  moveNumber: number;
+  actorId: string; // Player whose turn it was
+}
+
+export type GameEvent = GameEventBase & (
+  // tileId and color are null when the pool was empty
+  | { type: GameEventType.TILE_DRAWN; tileId: string | null; color: TileColor | null }
+  | { type: GameEventType.GUESS_MADE; targetId: string; tileId: string; value: number; isCorrect: boolean }
+  // A tile is revealed when guessed, or as the penalty for a turn that ends without a correct guess:
+  // the drawn tile, or with the pool empty one of the guesser's own tiles of their choosing
+  | { type: GameEventType.TILE_REVEALED; targetId: string; tileId: string; color: TileColor; value: number; reason: 'GUESSED' | 'PENALTY' | 'CHOSEN' }
+  | { type: GameEventType.PLAYER_ELIMINATED; targetId: string }
+  | { type: GameEventType.JOKER_MOVED; tileId: string; position: number }
+  | { type: GameEventType.TIMED_OUT; policy: TimeoutPolicy }
+  | { type: GameEventType.TAKEN_BACK; wholeTurn: boolean }
+  | { type: GameEventType.TURN_ENDED; nextPlayerId: string }
+  | { type: GameEventType.GAME_WON; winnerId: string }
+);
+
+export interface WrongGuess {
+  tileId: string;
+  value: number;
+}
+
+// Everything needed to replay a game: the setup, the state right after the deal and every action taken
+export interface GameRecord {
+  config: GameConfig;
+  initialState: GameState;
+  actions: GameAction[];
+}
+
+// What a player can deduce about one tile: every value it may still be, with its likelihood
+export interface TileCandidates {
+  tileId: string;
+  candidates: { value: number; probability: number }[];
+}
+
+// A player's private marks on one hidden opponent tile
+export interface TileNote {
+  marked: number[]; // Values the player thinks it may be
+  crossed: number[]; // Values the player has ruled out
+}
+
+// Everything one seat has written down during a game
+export interface Notebook {
+  tiles: Record<string, TileNote>; // By tile id, so marks follow a tile when hands re-sort
+  players: Record<string, string>; // Short note pinned to an opponent
+}
+
+// Optional help for new players: what the deductions say about each hidden opponent tile
+export enum AssistMode {
+  OFF = 'OFF',
+  VALUES = 'VALUES', // The values a tile can still be
+  HEATMAP = 'HEATMAP', // Those values shaded by how likely each is
+}
+
+export enum ActionType {
+  DRAW = 'DRAW',
+  GUESS = 'GUESS',
+  CONTINUE = 'CONTINUE',
+  END_TURN = 'END_TURN',
+  PLACE_JOKER = 'PLACE_JOKER',
+  REVEAL_OWN = 'REVEAL_OWN',
+  TIME_OUT = 'TIME_OUT',
 }
 
+// What happens to a player who runs out of time
+export enum TimeoutPolicy {
+  AUTO_PLAY = 'AUTO_PLAY', // Draw if not done yet and end the turn, revealing the drawn tile
+  LOSE_TURN = 'LOSE_TURN', // End the turn as it stands, without drawing
+  ELIMINATE = 'ELIMINATE', // Out of the game
+}
+
+export type GameAction =
+  | { type: ActionType.DRAW }
+  | { type: ActionType.GUESS; targetPlayerId: string; tileId: string; value: number }
+  | { type: ActionType.CONTINUE }
+  | { type: ActionType.END_TURN }
+  | { type: ActionType.REVEAL_OWN; tileId: string }
+  // Sent by the clock, never chosen by a player
+  | { type: ActionType.TIME_OUT; policy: TimeoutPolicy }
+  // position is the insertion index in the owner's hand, not counting the Joker itself
+  | { type: ActionType.PLACE_JOKER; tileId: string; position: number };
+
 export interface ChatMessage {
   id: string;
   sender: 'user' | 'ai' | 'system';
@@ -54,6 +174,29 @@ export interface PlayerSetupConfig {
   name: string;
   avatar: string;
   isBot: boolean;
+  difficulty?: BotDifficulty;
+  profileId?: string; // Saved profile playing this seat, whose stats the game counts towards
+}
+
+// --- Player profiles: saved names, avatars, settings and lifetime stats ---
+
+export interface ProfileStats {
+  gamesPlayed: number;
+  wins: number;
+  losses: number;
+  guesses: number;
+  correctGuesses: number;
+  eliminationsCaused: number;
+  turnsPlayed: number; // Own turns taken before being eliminated or the game ending
+  vsBots: Partial<Record<BotDifficulty, { wins: number; losses: number }>>; // Games with that level at the table
+}
+
+export interface PlayerProfile {
+  id: string;
+  name: string;
+  avatar: string;
+  preferences: { timerSeconds: number; tileSet: TileSet }; // Settings the profile brings to a new game
+  stats: ProfileStats;
 }
 
 export interface GameConfig {
@@ -61,5 +204,63 @@ export interface GameConfig {
   timerSeconds: number;
   botCount: number;
   playerDetails: PlayerSetupConfig[];
-  includeJokers: boolean;
-}
\ No newline at end of file
+  tileSet: TileSet;
+  seed?: number; // Drives every random decision; the same seed and moves replay the same game
+  firstPlayerIndex?: number; // Seat that takes the first turn, seat 0 when unset
+  matchLength?: number; // Games in a best-of-N match; a single game when unset
+  freeEmptyPoolGuesses?: boolean; // House rule: no penalty for a wrong guess once the pool is empty
+  clock?: ClockConfig; // Chess clock instead of the per-turn timer
+  timeoutPolicy?: TimeoutPolicy; // AUTO_PLAY when unset
+  casual?: boolean; // Pass-and-play table that allows takebacks, as a game against bots always does
+  takebackLimit?: number; // Takebacks each seat may use per game, unlimited when unset
+}
+
+// Each seat has a bank of time for the whole game, topped up after every turn it takes
+export interface ClockConfig {
+  bankSeconds: number;
+  incrementSeconds: number;
+}
+
+// A series of games between the same seats, scored by finishing position (see game/match.ts)
+export interface MatchState {
+  length: number;
+  results: string[][]; // Player ids of each finished game from first place to last
+}
+
+// --- Online play: messages between the browser and the game server ---
+
+export interface RoomSeat {
+  playerId: string;
+  name: string;
+  avatar: string;
+  isBot: boolean;
+  difficulty?: BotDifficulty;
+  isTaken: boolean; // A browser holds this human seat
+  isConnected: boolean;
+}
+
+export interface RoomInfo {
+  code: string;
+  hostPlayerId: string;
+  config: GameConfig;
+  seats: RoomSeat[];
+  isStarted: boolean;
+}
+
+export type ClientMessage =
+  | { type: 'create'; config: GameConfig }
+  | { type: 'join'; code: string; name: string; avatar: string; profileId?: string; seatIndex?: number }
+  | { type: 'rejoin'; code: string; token: string }
+  | { type: 'start' }
+  | { type: 'action'; action: GameAction }
+  | { type: 'leave' };
+
+export type ServerMessage =
+  // token lets the same browser take its seat back after a dropped connection
+  | { type: 'joined'; code: string; playerId: string; token: string }
+  | { type: 'room'; room: RoomInfo }
+  | { type: 'state'; state: GameState }
+  | { type: 'error'; message: string }
+  | { type: 'reasoning'; playerId: string; text: string } // A model bot explaining its move
+  // The server's clocks as of now: every seat's bank, and what is left of the turn timer
+  | { type: 'clock'; clocks: Record<string, number>; timeLeft: number };